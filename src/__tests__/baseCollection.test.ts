@@ -1,4 +1,6 @@
 import { AdminBaseCollectionRef } from '../baseCollection';
+import { AdminCollectionGroupQueryBuilder } from '../collectionGroupQueryBuilder';
+import { AdminConflictError } from '../precondition';
 import { FieldValue as AdminFieldValue } from 'firebase-admin/firestore';
 import type {
   Firestore,
@@ -221,6 +223,41 @@ describe('AdminBaseCollectionRef', () => {
     expect(result).toBe(mockWriteResult);
   });
 
+  describe('delete() with a lastUpdateTime precondition', () => {
+    // Timestamp is mocked in this file; only toDate() is used for the conflict message
+    const lastUpdateTime = { toDate: () => new Date('2024-05-01T10:00:00.000Z') } as any;
+
+    beforeEach(() => {
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId);
+    });
+
+    it('should pass the precondition to docRef.delete()', async () => {
+      await collectionRefInstance.delete(testDocId, { lastUpdateTime });
+
+      expect(mockDocRef.delete).toHaveBeenCalledWith({ lastUpdateTime });
+    });
+
+    it('should reject with an AdminConflictError when the document changed', async () => {
+      mockDocRef.delete.mockRejectedValueOnce(Object.assign(new Error('FAILED_PRECONDITION'), { code: 9 }));
+
+      const error = await collectionRefInstance.delete(testDocId, { lastUpdateTime }).catch(e => e);
+
+      expect(error).toBeInstanceOf(AdminConflictError);
+      expect(error.message).toBe(`Document '${testCollectionId}/${testDocId}' was modified after 2024-05-01T10:00:00.000Z; read it again and retry.`);
+    });
+
+    it('should pass the precondition to transactions and batches', async () => {
+      const mockTransaction = { delete: jest.fn() } as any;
+      const mockBatch = { delete: jest.fn() } as any;
+
+      await collectionRefInstance.withTransaction(mockTransaction).delete(testDocId, { lastUpdateTime });
+      await collectionRefInstance.withBatch(mockBatch).delete(testDocId, { lastUpdateTime });
+
+      expect(mockTransaction.delete).toHaveBeenCalledWith(mockDocRef, { lastUpdateTime });
+      expect(mockBatch.delete).toHaveBeenCalledWith(mockDocRef, { lastUpdateTime });
+    });
+  });
+
   // Test get()
   it('should call docRef.get() and return data for existing doc', async () => {
     collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId);
@@ -265,6 +302,608 @@ describe('AdminBaseCollectionRef', () => {
     expect(result).toBeUndefined();
   });
 
+  describe('getWithMeta()', () => {
+    const times = {
+      createTime: { seconds: 1, nanoseconds: 0 },
+      updateTime: { seconds: 2, nanoseconds: 0 },
+      readTime: { seconds: 3, nanoseconds: 0 },
+    };
+
+    it('should return the document ID, reference, data and metadata', async () => {
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId);
+      mockDocRef.get.mockResolvedValue({ exists: true, id: testDocId, ref: mockDocRef, data: () => ({ name: 'Meta' }), ...times });
+
+      const result = await collectionRefInstance.getWithMeta(testDocId);
+
+      expect(result).toEqual({ id: testDocId, ref: mockDocRef, data: { name: 'Meta' }, ...times });
+    });
+
+    it('should return undefined for a missing document', async () => {
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId);
+      mockDocRef.get.mockResolvedValue({ exists: false, id: testDocId, ref: mockDocRef, data: () => undefined, readTime: times.readTime });
+
+      await expect(collectionRefInstance.getWithMeta(testDocId)).resolves.toBeUndefined();
+    });
+
+    it('should read through the bound transaction', async () => {
+      const mockTransaction = {
+        get: jest.fn().mockResolvedValue({ exists: true, id: testDocId, ref: mockDocRef, data: () => ({ name: 'Tx' }), ...times }),
+      } as any;
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId)
+        .withTransaction(mockTransaction);
+
+      const result = await collectionRefInstance.getWithMeta(testDocId);
+
+      expect(mockTransaction.get).toHaveBeenCalledWith(mockDocRef);
+      expect(mockDocRef.get).not.toHaveBeenCalled();
+      expect(result?.data).toEqual({ name: 'Tx' });
+    });
+  });
+
+  describe('field masks', () => {
+    const maskedSnapshot = { exists: true, id: testDocId, ref: null as any, data: () => ({ name: 'Masked' }) };
+
+    beforeEach(() => {
+      maskedSnapshot.ref = mockDocRef;
+      mockFirestore.getAll = jest.fn().mockResolvedValue([maskedSnapshot]);
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId);
+    });
+
+    it('should read only the masked fields in get()', async () => {
+      const result = await collectionRefInstance.get(testDocId, { fieldMask: ['name'] });
+
+      expect(mockFirestore.getAll).toHaveBeenCalledWith(mockDocRef, { fieldMask: ['name'] });
+      expect(mockDocRef.get).not.toHaveBeenCalled();
+      expect(result).toEqual({ name: 'Masked' });
+    });
+
+    it('should read only the masked fields in getWithMeta()', async () => {
+      const result = await collectionRefInstance.getWithMeta(testDocId, { fieldMask: ['name'] });
+
+      expect(mockFirestore.getAll).toHaveBeenCalledWith(mockDocRef, { fieldMask: ['name'] });
+      expect(result?.data).toEqual({ name: 'Masked' });
+    });
+
+    it('should use the bound transaction for masked reads', async () => {
+      const mockTransaction = { getAll: jest.fn().mockResolvedValue([maskedSnapshot]) } as any;
+
+      await collectionRefInstance.withTransaction(mockTransaction).get(testDocId, { fieldMask: ['name'] });
+
+      expect(mockTransaction.getAll).toHaveBeenCalledWith(mockDocRef, { fieldMask: ['name'] });
+      expect(mockFirestore.getAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMany()', () => {
+    const existing = new Set(['a', 'c', 'd']);
+    const snapshotFor = (ref: any) => ({
+      id: ref.id,
+      ref,
+      exists: existing.has(ref.id),
+      data: () => (existing.has(ref.id) ? { name: `Item ${ref.id}` } : undefined),
+    });
+
+    beforeEach(() => {
+      mockCollectionRef.doc = jest.fn((id: string) => ({ id, path: `${testCollectionId}/${id}` }));
+      // Return snapshots in reverse to check that results follow the requested order
+      mockFirestore.getAll = jest.fn(async (...args: any[]) => args.filter(arg => 'path' in arg).map(snapshotFor).reverse());
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId);
+    });
+
+    it('should return found documents in input order and report missing IDs', async () => {
+      const result = await collectionRefInstance.getMany(['d', 'b', 'a', 'x', 'a']);
+
+      expect(mockFirestore.getAll).toHaveBeenCalledTimes(1);
+      expect(mockFirestore.getAll.mock.calls[0].map((ref: any) => ref.id)).toEqual(['d', 'b', 'a', 'x']); // Duplicates read once
+      expect(result.docs.map(doc => [doc.id, doc.data])).toEqual([
+        ['d', { name: 'Item d' }],
+        ['a', { name: 'Item a' }],
+      ]);
+      expect(result.missingIds).toEqual(['b', 'x']);
+    });
+
+    it('should split large ID lists into chunks', async () => {
+      const ids = Array.from({ length: 250 }, (_, i) => `id${i}`);
+
+      const result = await collectionRefInstance.getMany(ids);
+
+      expect(mockFirestore.getAll.mock.calls.map((call: any[]) => call.length)).toEqual([100, 100, 50]);
+      expect(result.missingIds).toEqual(ids);
+
+      await collectionRefInstance.getMany(['a', 'b', 'c'], { chunkSize: 2 });
+      expect(mockFirestore.getAll.mock.calls.slice(3).map((call: any[]) => call.length)).toEqual([2, 1]);
+    });
+
+    it('should pass the field mask as read options', async () => {
+      await collectionRefInstance.getMany(['a', 'b'], { fieldMask: ['name'] });
+
+      const args = mockFirestore.getAll.mock.calls[0];
+      expect(args[args.length - 1]).toEqual({ fieldMask: ['name'] });
+      expect(args).toHaveLength(3);
+    });
+
+    it('should not read anything for an empty ID list', async () => {
+      await expect(collectionRefInstance.getMany([])).resolves.toEqual({ docs: [], missingIds: [] });
+      expect(mockFirestore.getAll).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid chunk sizes', async () => {
+      await expect(collectionRefInstance.getMany(['a'], { chunkSize: 0 }))
+        .rejects.toThrow('Chunk size must be a positive integer, got 0');
+    });
+
+    it('should read through the bound transaction', async () => {
+      const mockTransaction = { getAll: jest.fn(async (...refs: any[]) => refs.map(snapshotFor)) } as any;
+
+      const result = await collectionRefInstance.withTransaction(mockTransaction).getMany(['a', 'b']);
+
+      expect(mockTransaction.getAll).toHaveBeenCalledTimes(1);
+      expect(mockFirestore.getAll).not.toHaveBeenCalled();
+      expect(result.missingIds).toEqual(['b']);
+    });
+  });
+
+  describe('schema validation', () => {
+    const validatedSchema = {
+      fields: {
+        name: { type: 'string' as const, required: true, min: 3 },
+        createdAt: { defaultValue: 'serverTimestamp' },
+      },
+    };
+
+    it('should throw a SchemaValidationError from add() before writing', async () => {
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId, validatedSchema);
+
+      await expect(collectionRefInstance.add({ name: 'ab' })).rejects.toMatchObject({
+        name: 'SchemaValidationError',
+        issues: [{ path: 'name', rule: 'min', message: 'must be at least 3 in length, got 2' }],
+      });
+      expect(mockCollectionRef.add).not.toHaveBeenCalled();
+    });
+
+    it('should require missing fields in a full set()', async () => {
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId, validatedSchema);
+
+      await expect(collectionRefInstance.set(testDocId, {} as TestAddData)).rejects.toMatchObject({
+        issues: [{ path: 'name', rule: 'required', message: 'required field is missing' }],
+      });
+      expect(mockDocRef.set).not.toHaveBeenCalled();
+    });
+
+    it('should only validate provided fields in a merge set()', async () => {
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId, validatedSchema);
+
+      await collectionRefInstance.set(testDocId, {}, { merge: true });
+      expect(mockDocRef.set).toHaveBeenCalledWith({}, { merge: true });
+
+      await expect(collectionRefInstance.set(testDocId, { name: 'x' }, { merge: true })).rejects.toMatchObject({
+        issues: [{ path: 'name', rule: 'min' }],
+      });
+    });
+
+    it('should deep-merge nested maps in a merge set(), but validate maps replaced by mergeFields whole', async () => {
+      const addressSchema = {
+        fields: { address: { type: 'map' as const, fields: { city: { type: 'string' as const }, zip: { type: 'string' as const, required: true } } } },
+      };
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId, addressSchema);
+
+      await collectionRefInstance.set(testDocId, { address: { city: 'Oslo' } } as any, { merge: true });
+      expect(mockDocRef.set).toHaveBeenCalledWith({ address: { city: 'Oslo' } }, { merge: true });
+      await collectionRefInstance.set(testDocId, { address: { city: 'Oslo' } } as any, { mergeFields: ['address.city'] });
+      expect(mockDocRef.set).toHaveBeenCalledTimes(2);
+
+      await expect(collectionRefInstance.set(testDocId, { address: { city: 'Oslo' } } as any, { mergeFields: ['address'] })).rejects.toMatchObject({
+        issues: [{ path: 'address.zip', rule: 'required', message: 'required field is missing' }],
+      });
+      expect(mockDocRef.set).toHaveBeenCalledTimes(2);
+    });
+
+    it('should pass the schema to update builders through updateBuilderOptions()', () => {
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId, validatedSchema);
+      expect((collectionRefInstance as any).updateBuilderOptions()).toEqual({
+        transaction: undefined,
+        batch: undefined,
+        schema: validatedSchema,
+        applyCodecs: false,
+      });
+    });
+  });
+
+  describe('withSchemaConverter()', () => {
+    const upperCaseCodec = {
+      toFirestore: (value: string) => value.toUpperCase(),
+      fromFirestore: (value: string) => value.toLowerCase(),
+    };
+    let mockConvertedCollectionRef: any;
+
+    beforeEach(() => {
+      mockConvertedCollectionRef = { ...mockCollectionRef, id: testCollectionId };
+      mockCollectionRef.withConverter = jest.fn().mockReturnValue(mockConvertedCollectionRef);
+    });
+
+    it('should throw if the collection has no schema', () => {
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId);
+      expect(() => collectionRefInstance.withSchemaConverter())
+        .toThrow(`Cannot attach a schema converter to collection '${testCollectionId}' without a schema`);
+    });
+
+    it('should return a copy whose ref carries the schema converter', () => {
+      const schema = { fields: { name: { codec: upperCaseCodec } } };
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId, schema);
+
+      const convertedCollection = collectionRefInstance.withSchemaConverter();
+
+      expect(convertedCollection.ref).toBe(mockConvertedCollectionRef);
+      expect(collectionRefInstance.ref).toBe(mockCollectionRef);
+      const converter = mockCollectionRef.withConverter.mock.calls[0][0];
+      expect(converter.toFirestore({ name: 'abc' })).toEqual({ name: 'ABC' });
+      expect(converter.fromFirestore({ data: () => ({ name: 'ABC' }) })).toEqual({ name: 'abc' });
+    });
+
+    it('should validate the encoded form of the data', async () => {
+      const schema = { fields: { name: { type: 'string' as const, pattern: '^[A-Z]+$', codec: upperCaseCodec } } };
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId, schema);
+
+      await expect(collectionRefInstance.withSchemaConverter().add({ name: 'lower' })).resolves.toBe(mockDocRef);
+      await expect(collectionRefInstance.add({ name: 'lower' })).rejects.toThrow('name: does not match pattern');
+    });
+
+    it('should have update builders apply the field codecs', () => {
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId, { fields: { name: { codec: upperCaseCodec } } });
+      expect((collectionRefInstance.withSchemaConverter() as any).updateBuilderOptions()).toMatchObject({ applyCodecs: true });
+    });
+
+    it('should attach the converter to sub-collections created from a converted collection', () => {
+      const subSchema = { fields: { value: {} } };
+      const schema = {
+        fields: {},
+        subCollections: { 'sub-items': { schema: subSchema, collectionClass: MockSubCollection } },
+      };
+      const mockSubCollectionRef = { id: 'sub-items', withConverter: jest.fn().mockReturnValue({ id: 'sub-items' }) };
+      mockParentRef.collection.mockReturnValue(mockSubCollectionRef);
+      mockConvertedCollectionRef.doc = jest.fn().mockReturnValue(mockParentRef);
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId, schema);
+
+      const subCollectionInstance = collectionRefInstance.withSchemaConverter().subCollection('parent-123', 'sub-items');
+
+      expect(mockSubCollectionRef.withConverter).toHaveBeenCalledTimes(1);
+      expect((subCollectionInstance as any).converter).toBeDefined();
+    });
+  });
+
+  describe('withTransaction()', () => {
+    let mockTransaction: any;
+
+    beforeEach(() => {
+      mockTransaction = {
+        get: jest.fn(),
+        create: jest.fn(),
+        set: jest.fn(),
+        delete: jest.fn(),
+      };
+    });
+
+    it('should return a new instance bound to the transaction without mutating the original', () => {
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId);
+      const txCollection = collectionRefInstance.withTransaction(mockTransaction);
+
+      expect(txCollection).not.toBe(collectionRefInstance);
+      expect(txCollection).toBeInstanceOf(AdminBaseCollectionRef);
+      expect(txCollection.ref).toBe(mockCollectionRef);
+      expect((txCollection as any).transaction).toBe(mockTransaction);
+      expect((collectionRefInstance as any).transaction).toBeUndefined();
+    });
+
+    it('should read through transaction.get() in get()', async () => {
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId);
+      const expectedData: TestData = { name: 'Tx Item' };
+      mockTransaction.get.mockResolvedValue({ exists: true, data: () => expectedData });
+
+      const result = await collectionRefInstance.withTransaction(mockTransaction).get(testDocId);
+
+      expect(mockTransaction.get).toHaveBeenCalledWith(mockDocRef);
+      expect(mockDocRef.get).not.toHaveBeenCalled();
+      expect(result).toEqual(expectedData);
+    });
+
+    it('should create the document through the transaction with defaults applied in add()', async () => {
+      const schema = { fields: { createdAt: { defaultValue: 'serverTimestamp' } } };
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId, schema);
+
+      const result = await collectionRefInstance.withTransaction(mockTransaction).add({ name: 'Tx Add' });
+
+      expect(mockCollectionRef.doc).toHaveBeenCalledWith(); // Auto-generated ID
+      expect(mockTransaction.create).toHaveBeenCalledWith(mockDocRef, { name: 'Tx Add', createdAt: MOCK_SERVER_TIMESTAMP });
+      expect(mockCollectionRef.add).not.toHaveBeenCalled();
+      expect(result).toBe(mockDocRef);
+    });
+
+    it('should set through the transaction in set()', async () => {
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId);
+      const options = { merge: true } as const;
+
+      const result = await collectionRefInstance.withTransaction(mockTransaction).set(testDocId, { name: 'Tx Set' }, options);
+
+      expect(mockTransaction.set).toHaveBeenCalledWith(mockDocRef, { name: 'Tx Set' }, options);
+      expect(mockDocRef.set).not.toHaveBeenCalled();
+      expect(result).toBeUndefined();
+    });
+
+    it('should delete through the transaction in delete()', async () => {
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId);
+
+      const result = await collectionRefInstance.withTransaction(mockTransaction).delete(testDocId);
+
+      expect(mockTransaction.delete).toHaveBeenCalledWith(mockDocRef);
+      expect(mockDocRef.delete).not.toHaveBeenCalled();
+      expect(result).toBeUndefined();
+    });
+
+    it('should bind sub-collections to the same transaction', () => {
+      const schema = {
+        fields: {},
+        subCollections: { 'sub-items': { collectionClass: MockSubCollection } },
+      };
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId, schema);
+      mockCollectionRef.doc.mockReturnValue(mockParentRef);
+
+      const subCollectionInstance = collectionRefInstance
+        .withTransaction(mockTransaction)
+        .subCollection('parent-123', 'sub-items');
+
+      expect(subCollectionInstance).toBeInstanceOf(MockSubCollection);
+      expect((subCollectionInstance as any).transaction).toBe(mockTransaction);
+    });
+  });
+
+  describe('withBatch()', () => {
+    let mockBatch: any;
+
+    beforeEach(() => {
+      mockBatch = { create: jest.fn(), set: jest.fn(), delete: jest.fn() };
+    });
+
+    it('should queue add() as a create with defaults applied', async () => {
+      const schema = { fields: { createdAt: { defaultValue: 'serverTimestamp' } } };
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId, schema);
+
+      const result = await collectionRefInstance.withBatch(mockBatch).add({ name: 'Batch Add' });
+
+      expect(mockCollectionRef.doc).toHaveBeenCalledWith();
+      expect(mockBatch.create).toHaveBeenCalledWith(mockDocRef, { name: 'Batch Add', createdAt: MOCK_SERVER_TIMESTAMP });
+      expect(mockCollectionRef.add).not.toHaveBeenCalled();
+      expect(result).toBe(mockDocRef);
+    });
+
+    it('should queue set() and delete() on the batch', async () => {
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId);
+      const batchCollection = collectionRefInstance.withBatch(mockBatch);
+
+      const setResult = await batchCollection.set(testDocId, { name: 'Batch Set' });
+      const deleteResult = await batchCollection.delete(testDocId);
+
+      expect(mockBatch.set).toHaveBeenCalledWith(mockDocRef, { name: 'Batch Set' }, {});
+      expect(mockBatch.delete).toHaveBeenCalledWith(mockDocRef);
+      expect(mockDocRef.set).not.toHaveBeenCalled();
+      expect(mockDocRef.delete).not.toHaveBeenCalled();
+      expect(setResult).toBeUndefined();
+      expect(deleteResult).toBeUndefined();
+      expect((collectionRefInstance as any).batch).toBeUndefined();
+    });
+  });
+
+  describe('onSnapshot()', () => {
+    const docSnapshot = (exists: boolean, data?: any) => ({ id: testDocId, exists, data: () => data });
+
+    it('should report added, modified and removed events with the document ID', () => {
+      const unsubscribe = jest.fn();
+      mockDocRef.onSnapshot = jest.fn(() => unsubscribe);
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId);
+      const onNext = jest.fn();
+
+      const result = collectionRefInstance.onSnapshot(testDocId, onNext);
+      const [listener] = mockDocRef.onSnapshot.mock.calls[0];
+      listener(docSnapshot(false));
+      listener(docSnapshot(true, { name: 'v1' }));
+      listener(docSnapshot(true, { name: 'v2' }));
+      listener(docSnapshot(false));
+
+      expect(result).toBe(unsubscribe);
+      expect(mockCollectionRef.doc).toHaveBeenCalledWith(testDocId);
+      expect(onNext.mock.calls.map(([event]) => [event.type, event.id, event.data])).toEqual([
+        [undefined, testDocId, undefined],
+        ['added', testDocId, { name: 'v1' }],
+        ['modified', testDocId, { name: 'v2' }],
+        ['removed', testDocId, undefined],
+      ]);
+    });
+
+    it('should pass the error callback to the listener', () => {
+      mockDocRef.onSnapshot = jest.fn(() => jest.fn());
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId);
+      const onError = jest.fn();
+
+      collectionRefInstance.onSnapshot(testDocId, jest.fn(), onError);
+
+      expect(mockDocRef.onSnapshot.mock.calls[0][1]).toBe(onError);
+    });
+  });
+
+  describe('bulk operations', () => {
+    let mockBulkWriter: any;
+
+    beforeEach(() => {
+      mockBulkWriter = {
+        set: jest.fn().mockResolvedValue(mockWriteResult),
+        update: jest.fn().mockResolvedValue(mockWriteResult),
+        delete: jest.fn().mockResolvedValue(mockWriteResult),
+        onWriteError: jest.fn(),
+        close: jest.fn().mockResolvedValue(undefined),
+      };
+      mockFirestore.bulkWriter = jest.fn().mockReturnValue(mockBulkWriter);
+      mockCollectionRef.doc.mockImplementation((id: string) => ({ id, path: `${testCollectionId}/${id}` }));
+    });
+
+    it('should apply defaults in bulkSet() and summarise the results', async () => {
+      const schema = { fields: { createdAt: { defaultValue: 'serverTimestamp' } } };
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId, schema);
+
+      const summary = await collectionRefInstance.bulkSet([
+        { id: 'a', data: { name: 'A' } },
+        { id: 'b', data: { name: 'B' } },
+      ]);
+
+      expect(mockBulkWriter.set).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'a' }),
+        { name: 'A', createdAt: MOCK_SERVER_TIMESTAMP }
+      );
+      expect(mockBulkWriter.close).toHaveBeenCalledTimes(1);
+      expect(summary).toEqual({ succeeded: ['a', 'b'], failed: [] });
+    });
+
+    it('should pass update data through in bulkUpdate()', async () => {
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId);
+
+      await collectionRefInstance.bulkUpdate([{ id: 'a', data: { name: 'Renamed' } }]);
+
+      expect(mockBulkWriter.update).toHaveBeenCalledWith(expect.objectContaining({ id: 'a' }), { name: 'Renamed' });
+    });
+
+    it('should report failed IDs in bulkDelete()', async () => {
+      const deleteError = new Error('boom');
+      mockBulkWriter.delete.mockImplementation((ref: any) =>
+        ref.id === 'b' ? Promise.reject(deleteError) : Promise.resolve(mockWriteResult)
+      );
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId);
+      const onProgress = jest.fn();
+
+      const summary = await collectionRefInstance.bulkDelete(['a', 'b'], { onProgress, throttling: false });
+
+      expect(mockFirestore.bulkWriter).toHaveBeenCalledWith({ throttling: false });
+      expect(summary).toEqual({ succeeded: ['a'], failed: [{ id: 'b', error: deleteError }] });
+      expect(onProgress).toHaveBeenLastCalledWith({ total: 2, completed: 2, succeeded: 1, failed: 1 });
+    });
+  });
+
+  describe('deleteRecursive()', () => {
+    // Documents per collection path; 'audit' is not declared in the schema
+    const tree: Record<string, string[]> = {
+      'test-items/root/posts': ['p1', 'p2'],
+      'test-items/root/posts/p1/comments': ['c1'],
+      'test-items/root/audit': ['a1'],
+    };
+    const schema = {
+      fields: {},
+      subCollections: {
+        posts: {
+          schema: { fields: {}, subCollections: { comments: { collectionClass: MockSubCollection } } },
+          collectionClass: MockSubCollection,
+        },
+      },
+    };
+    const parentPathOf = (path: string) => path.split('/').slice(0, -1).join('/');
+    const makeCollectionRef = (path: string): any => ({
+      id: path.split('/').pop(),
+      path,
+      listDocuments: jest.fn(async () => (tree[path] ?? []).map(docId => makeDocRef(`${path}/${docId}`))),
+    });
+    const makeDocRef = (path: string): any => ({
+      id: path.split('/').pop(),
+      path,
+      parent: { path: parentPathOf(path) },
+      collection: jest.fn((subCollectionId: string) => makeCollectionRef(`${path}/${subCollectionId}`)),
+      listCollections: jest.fn(async () => Object.keys(tree)
+        .filter(collectionPath => parentPathOf(collectionPath) === path)
+        .map(makeCollectionRef)),
+    });
+    let mockBulkWriter: any;
+    let deletedPaths: string[];
+    let missingPaths: Set<string>; // Documents that only hold sub-collections
+
+    beforeEach(() => {
+      deletedPaths = [];
+      missingPaths = new Set();
+      mockFirestore.getAll = jest.fn(async (...args: any[]) =>
+        args.slice(0, -1).map(ref => ({ ref, exists: !missingPaths.has(ref.path) })));
+      mockBulkWriter = {
+        delete: jest.fn(async (ref: any) => { deletedPaths.push(ref.path); return mockWriteResult; }),
+        onWriteError: jest.fn(),
+        close: jest.fn().mockResolvedValue(undefined),
+      };
+      mockFirestore.bulkWriter = jest.fn().mockReturnValue(mockBulkWriter);
+      mockCollectionRef.doc.mockImplementation((id: string) => makeDocRef(`${testCollectionId}/${id}`));
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId, schema);
+    });
+
+    it('should delete declared sub-collections bottom-up and count per collection path', async () => {
+      const result = await collectionRefInstance.deleteRecursive('root');
+
+      expect(deletedPaths).toEqual([
+        'test-items/root/posts/p1/comments/c1',
+        'test-items/root/posts/p1',
+        'test-items/root/posts/p2',
+        'test-items/root',
+      ]);
+      expect(result).toEqual({
+        deleted: { 'test-items/root/posts/p1/comments': 1, 'test-items/root/posts': 2, 'test-items': 1 },
+        failed: [],
+      });
+    });
+
+    it('should include undeclared sub-collections when requested', async () => {
+      const result = await collectionRefInstance.deleteRecursive('root', { includeUndeclared: true });
+
+      expect(deletedPaths).toContain('test-items/root/audit/a1');
+      expect(result.deleted['test-items/root/audit']).toBe(1);
+    });
+
+    it('should only count documents in a dry run', async () => {
+      const result = await collectionRefInstance.deleteRecursive('root', { dryRun: true, includeUndeclared: true });
+
+      expect(mockFirestore.bulkWriter).not.toHaveBeenCalled();
+      expect(result.deleted).toEqual({
+        'test-items/root/posts/p1/comments': 1,
+        'test-items/root/posts': 2,
+        'test-items/root/audit': 1,
+        'test-items': 1,
+      });
+    });
+
+    it('should keep ancestors of documents that failed to delete', async () => {
+      const error = new Error('denied');
+      mockBulkWriter.delete.mockImplementation(async (ref: any) => {
+        if (ref.path === 'test-items/root/posts/p1/comments/c1') {
+          throw error;
+        }
+        deletedPaths.push(ref.path);
+        return mockWriteResult;
+      });
+
+      const result = await collectionRefInstance.deleteRecursive('root');
+
+      expect(deletedPaths).toEqual(['test-items/root/posts/p2']);
+      expect(result.deleted).toEqual({ 'test-items/root/posts/p1/comments': 0, 'test-items/root/posts': 1, 'test-items': 0 });
+      expect(result.failed.map(failure => failure.id)).toEqual([
+        'test-items/root/posts/p1/comments/c1',
+        'test-items/root/posts/p1',
+        'test-items/root',
+      ]);
+      expect(result.failed[0].error).toBe(error);
+    });
+
+    it('should only delete and count documents that exist', async () => {
+      missingPaths = new Set(['test-items/root', 'test-items/root/posts/p1']);
+
+      const dryRunResult = await collectionRefInstance.deleteRecursive('root', { dryRun: true });
+      const result = await collectionRefInstance.deleteRecursive('root');
+
+      expect(mockFirestore.getAll).toHaveBeenCalledWith(expect.objectContaining({ path: 'test-items/root' }), { fieldMask: [] });
+      expect(dryRunResult.deleted).toEqual({ 'test-items/root/posts/p1/comments': 1, 'test-items/root/posts': 1, 'test-items': 0 });
+      expect(result.deleted).toEqual(dryRunResult.deleted);
+      expect(deletedPaths).toEqual(['test-items/root/posts/p1/comments/c1', 'test-items/root/posts/p2']);
+    });
+  });
+
   describe('subCollection()', () => {
     const parentDocId = 'parent-123';
     const subCollectionId = 'sub-items';
@@ -411,4 +1050,46 @@ describe('AdminBaseCollectionRef', () => {
         // Removed check for parentRef property as it's not stored by default
      });
   });
+
+  describe('collectionGroup()', () => {
+    const schema = {
+      fields: { name: {} },
+      subCollections: { posts: { schema: { fields: { title: {} } }, collectionClass: MockSubCollection } },
+    };
+    let mockCollectionGroup: any;
+
+    beforeEach(() => {
+      mockCollectionGroup = { withConverter: jest.fn() };
+      mockCollectionGroup.withConverter.mockReturnValue(mockCollectionGroup);
+      mockFirestore.collectionGroup = jest.fn().mockReturnValue(mockCollectionGroup);
+      collectionRefInstance = new AdminBaseCollectionRef<TestData, TestAddData>(mockFirestore, testCollectionId, schema);
+    });
+
+    it('should create a collection group query builder for a declared sub-collection', () => {
+      const builder = collectionRefInstance.collectionGroup<{ title: string }, 'test-items/{itemId}'>('posts', 'test-items/{itemId}');
+
+      expect(builder).toBeInstanceOf(AdminCollectionGroupQueryBuilder);
+      expect(mockFirestore.collectionGroup).toHaveBeenCalledWith('posts');
+      expect(mockCollectionGroup.withConverter).not.toHaveBeenCalled();
+      expect(builder.parseParentIds('test-items/i1/posts/p1')).toEqual({ itemId: 'i1' });
+    });
+
+    it('should throw for sub-collections missing from the schema or a mismatched parent path', () => {
+      expect(() => collectionRefInstance.collectionGroup('comments', 'test-items/{itemId}'))
+        .toThrow(`Sub-collection 'comments' not found in schema for collection '${testCollectionId}'`);
+      expect(() => collectionRefInstance.collectionGroup('posts', 'users/{userId}'))
+        .toThrow(`Parent path 'users/{userId}' must end in a document of collection '${testCollectionId}'`);
+    });
+
+    it('should inherit the schema converter and transaction of the collection', () => {
+      mockCollectionRef.withConverter = jest.fn().mockReturnValue(mockCollectionRef);
+      const mockTransaction = {} as any;
+
+      const builder = collectionRefInstance.withSchemaConverter().withTransaction(mockTransaction)
+        .collectionGroup('posts', 'test-items/{itemId}');
+
+      expect(mockCollectionGroup.withConverter).toHaveBeenCalledTimes(1);
+      expect((builder as any).transaction).toBe(mockTransaction);
+    });
+  });
 }); // This now closes the main describe block
@@ -1,4 +1,7 @@
-import { AdminBaseQueryBuilder } from '../baseQueryBuilder';
+import { AdminBaseQueryBuilder, QueryValidationError, whereFilter, orFilter, andFilter } from '../baseQueryBuilder';
+import { encodePageToken, PageTokenError } from '../pageToken';
+import { Readable } from 'stream';
+import { Filter, FieldPath as AdminFieldPathClass, Timestamp as AdminTimestamp } from 'firebase-admin/firestore';
 import type {
   Firestore,
   CollectionReference,
@@ -116,6 +119,63 @@ describe('AdminBaseQueryBuilder', () => {
     });
   });
 
+  // --- Test Composite Filters ---
+  describe('filter()', () => {
+    it('should add nested or/and filter definitions', () => {
+      const filter = orFilter(
+        whereFilter('active', '==', true),
+        andFilter(whereFilter('count', '>', 5), whereFilter('name', '!=', 'x'))
+      );
+      const result = queryBuilder.filter(filter);
+
+      expect((result as any).constraintDefinitions).toEqual([{
+        type: 'or',
+        filters: [
+          { type: 'where', fieldPath: 'active', opStr: '==', value: true },
+          { type: 'and', filters: [
+            { type: 'where', fieldPath: 'count', opStr: '>', value: 5 },
+            { type: 'where', fieldPath: 'name', opStr: '!=', value: 'x' },
+          ] },
+        ],
+      }]);
+      expect(result).not.toBe(queryBuilder);
+    });
+
+    it('should build composite filters with Filter.or / Filter.and', () => {
+      (queryBuilder as any)
+        ._where('name', '==', 'A')
+        .filter(orFilter(whereFilter('active', '==', true), andFilter(whereFilter('count', '>', 5))))
+        .buildQuery();
+
+      expect(mockCollectionRef.where).toHaveBeenCalledWith('name', '==', 'A');
+      expect(mockCollectionRef.where).toHaveBeenCalledWith(
+        Filter.or(Filter.where('active', '==', true), Filter.and(Filter.where('count', '>', 5)))
+      );
+    });
+  });
+
+  // --- Test Field Projection ---
+  describe('select()', () => {
+    it('should add a select constraint and build it with Query.select', async () => {
+      mockCollectionRef.select = jest.fn(() => mockCollectionRef);
+      mockQueryChainableMethods.get.mockResolvedValue({ docs: [{ data: () => ({ name: 'A' }) }] });
+
+      const builder = queryBuilder.select('name', 'count').orderBy('name');
+      const result = await builder.get();
+
+      expect((builder as any).constraintDefinitions[0]).toEqual({ type: 'select', fieldPaths: ['name', 'count'] });
+      expect(mockCollectionRef.select).toHaveBeenCalledWith('name', 'count');
+      expect(result).toEqual([{ name: 'A' }]);
+    });
+
+    it('should round-trip through toJSON() / fromJSON()', () => {
+      const json = queryBuilder.select('name').toJSON();
+
+      expect(json.constraints).toEqual([{ type: 'select', fieldPaths: ['name'] }]);
+      expect((queryBuilder.fromJSON(json) as any).constraintDefinitions).toEqual([{ type: 'select', fieldPaths: ['name'] }]);
+    });
+  });
+
   // --- Test OrderBy Clauses ---
   describe('orderBy()', () => {
     it('should add an orderBy constraint definition', () => {
@@ -172,7 +232,7 @@ describe('AdminBaseQueryBuilder', () => {
 
      it('should build query with limitToLast constraint', () => {
         const limitNum = 15;
-        const finalQuery = queryBuilder.limitToLast(limitNum).buildQuery();
+        const finalQuery = queryBuilder.orderBy('name').limitToLast(limitNum).buildQuery(); // limitToLast requires an orderBy
 
         expect(mockCollectionRef.limitToLast).toHaveBeenCalledWith(limitNum);
         expect(finalQuery).toBe(mockCollectionRef);
@@ -274,6 +334,461 @@ describe('AdminBaseQueryBuilder', () => {
     });
   });
 
+  describe('getDocs()', () => {
+    it('should return each document with its ID, reference and metadata', async () => {
+      const times = { createTime: { seconds: 1 }, updateTime: { seconds: 2 }, readTime: { seconds: 3 } };
+      const mockDocs = [
+        { id: 'a', ref: { path: 'test-collection/a' }, data: () => ({ name: 'A', count: 1 }), ...times },
+      ];
+      mockQueryChainableMethods.get.mockResolvedValue({ docs: mockDocs });
+
+      const result = await queryBuilder.getDocs();
+
+      expect(result).toEqual([
+        { id: 'a', ref: mockDocs[0].ref, data: { name: 'A', count: 1 }, ...times },
+      ]);
+    });
+  });
+
+  describe('validate()', () => {
+    const expectInvalid = (builder: AdminBaseQueryBuilder<TestData>, message: string) => {
+      expect(() => builder.buildQuery()).toThrow(QueryValidationError);
+      expect(() => builder.buildQuery()).toThrow(message);
+    };
+
+    it('should reject "in" filters with more than 30 values, including inside composite filters', () => {
+      const values = Array.from({ length: 31 }, (_, i) => `v${i}`);
+
+      expectInvalid((queryBuilder as any)._where('name', 'in', values),
+        "Invalid query constraint where('name', 'in', [31 values]): 'in' supports at most 30 values, got 31.");
+      expectInvalid(queryBuilder.filter(orFilter(whereFilter('active', '==', true), whereFilter('name', 'in', values))),
+        "'in' supports at most 30 values, got 31.");
+      expect(mockCollectionRef.where).not.toHaveBeenCalled();
+    });
+
+    it('should reject empty or non-array values for "in"-style filters', () => {
+      expectInvalid((queryBuilder as any)._where('tags', 'array-contains-any', []),
+        "'array-contains-any' requires a non-empty array of values.");
+    });
+
+    it('should reject limitToLast without orderBy', () => {
+      expectInvalid(queryBuilder.limitToLast(5),
+        'Invalid query constraint limitToLast(5): limitToLast requires at least one orderBy constraint.');
+    });
+
+    it('should reject an orderBy that does not start with the inequality field', () => {
+      const builder = (queryBuilder as any)._where('count', '>', 5).orderBy('name').orderBy('count');
+
+      expectInvalid(builder,
+        "Invalid query constraint orderBy('name', 'asc'): the first orderBy must be on the inequality filter field 'count'.");
+      expect(() => (queryBuilder as any)._where('count', '>', 5).orderBy('count').orderBy('name').buildQuery()).not.toThrow();
+    });
+
+    it('should reject mixing "not-in" and "!="', () => {
+      const builder = (queryBuilder as any)._where('name', 'not-in', ['a']).filter(whereFilter('count', '!=', 3));
+
+      expectInvalid(builder,
+        "Invalid query constraint where('count', '!=', 3): '!=' cannot be combined with the 'not-in' filter on 'name'.");
+    });
+
+    it('should expose the offending constraint on the error', () => {
+      let error: QueryValidationError | undefined;
+      try {
+        queryBuilder.limitToLast(2).buildQuery();
+      } catch (e) {
+        error = e as QueryValidationError;
+      }
+
+      expect(error?.name).toBe('QueryValidationError');
+      expect(error?.constraint).toEqual({ type: 'limitToLast', limitCount: 2 });
+    });
+
+    it('should fail before running the query', async () => {
+      await expect(queryBuilder.limitToLast(2).get()).rejects.toThrow(QueryValidationError);
+      expect(mockCollectionRef.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('toJSON() / fromJSON()', () => {
+    const buildComplexQuery = () => queryBuilder
+      .filter(orFilter(whereFilter('active', '==', true), whereFilter('createdAt', '==', new AdminTimestamp(10, 5))))
+      .orderBy(AdminFieldPathClass.documentId(), 'desc')
+      .limit(20)
+      .startAfter('a', 3);
+
+    it('should serialize constraints with tagged field paths, timestamps and cursor values', () => {
+      expect(buildComplexQuery().toJSON()).toEqual({
+        v: 1,
+        path: 'test-collection',
+        constraints: [
+          { type: 'or', filters: [
+            { type: 'where', fieldPath: 'active', opStr: '==', value: true },
+            { type: 'where', fieldPath: 'createdAt', opStr: '==', value: { __type: 'timestamp', seconds: 10, nanoseconds: 5 } },
+          ] },
+          { type: 'orderBy', fieldPath: { __type: 'fieldPath', segments: ['__name__'] }, directionStr: 'desc' },
+          { type: 'limit', limitCount: 20 },
+          { type: 'startAfter', values: ['a', 3] },
+        ],
+      });
+    });
+
+    it('should rebuild an equivalent builder from its JSON round trip', () => {
+      const original = buildComplexQuery();
+      const json = JSON.parse(JSON.stringify(original));
+
+      const rebuilt = queryBuilder.fromJSON(json);
+
+      expect(rebuilt).toBeInstanceOf(AdminBaseQueryBuilder);
+      expect((rebuilt as any).constraintDefinitions).toEqual((original as any).constraintDefinitions);
+      expect(rebuilt.hash()).toBe(original.hash());
+    });
+
+    it('should produce a deterministic hash that changes with the constraints', () => {
+      expect(buildComplexQuery().hash()).toBe(buildComplexQuery().hash());
+      expect(buildComplexQuery().hash()).not.toBe(buildComplexQuery().limit(1).hash());
+      expect(buildComplexQuery().hash()).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should refuse cursors built from a DocumentSnapshot', () => {
+      const snapshot = { ref: { path: 'test-collection/a' }, data: () => ({}) };
+
+      expect(() => queryBuilder.orderBy('name').startAfter(snapshot).toJSON())
+        .toThrow("Cannot serialize a 'startAfter' cursor built from a DocumentSnapshot; use field values or a page token instead.");
+    });
+
+    it('should reject serialized queries for another collection or format', () => {
+      expect(() => queryBuilder.fromJSON({ v: 1, path: 'other', constraints: [] }))
+        .toThrow("Serialized query targets 'other', not 'test-collection'.");
+      expect(() => queryBuilder.fromJSON({ v: 2, path: 'test-collection', constraints: [] } as any))
+        .toThrow('Unsupported serialized query format.');
+    });
+  });
+
+  describe('onSnapshot()', () => {
+    const mockDoc = (id: string, name: string) => ({ id, data: () => ({ name } as TestData) });
+
+    it('should deliver current data and typed changes, and return the unsubscribe handle', () => {
+      const unsubscribe = jest.fn();
+      mockCollectionRef.onSnapshot = jest.fn(() => unsubscribe);
+      const onNext = jest.fn();
+
+      const result = queryBuilder.orderBy('name').onSnapshot(onNext);
+      const [listener] = mockCollectionRef.onSnapshot.mock.calls[0];
+      const added = mockDoc('a', 'A');
+      const removed = mockDoc('b', 'B');
+      listener({
+        docs: [added],
+        docChanges: () => [
+          { type: 'added', doc: added, oldIndex: -1, newIndex: 0 },
+          { type: 'removed', doc: removed, oldIndex: 1, newIndex: -1 },
+        ],
+      });
+
+      expect(result).toBe(unsubscribe);
+      expect(mockCollectionRef.orderBy).toHaveBeenCalledWith('name', 'asc');
+      expect(onNext).toHaveBeenCalledTimes(1);
+      const event = onNext.mock.calls[0][0];
+      expect(event.data).toEqual([{ name: 'A' }]);
+      expect(event.changes).toEqual([
+        { type: 'added', id: 'a', data: { name: 'A' }, doc: added, oldIndex: -1, newIndex: 0 },
+        { type: 'removed', id: 'b', data: { name: 'B' }, doc: removed, oldIndex: 1, newIndex: -1 },
+      ]);
+    });
+
+    it('should pass the error callback to the listener', () => {
+      mockCollectionRef.onSnapshot = jest.fn(() => jest.fn());
+      const onError = jest.fn();
+
+      queryBuilder.onSnapshot(jest.fn(), onError);
+
+      expect(mockCollectionRef.onSnapshot.mock.calls[0][1]).toBe(onError);
+    });
+  });
+
+  describe('streaming', () => {
+    const mockDoc = (name: string) => ({ id: name, data: () => ({ name } as TestData) });
+    let mockStream: Readable;
+
+    beforeEach(() => {
+      mockStream = Readable.from(['A', 'B', 'C'].map(mockDoc));
+      jest.spyOn(mockStream, 'destroy');
+      mockCollectionRef.stream = jest.fn(() => mockStream);
+    });
+
+    it('should yield each document snapshot from the built query stream', async () => {
+      const ids: string[] = [];
+      for await (const snapshot of queryBuilder.limit(3).streamSnapshots()) {
+        ids.push(snapshot.id);
+      }
+
+      expect(mockCollectionRef.limit).toHaveBeenCalledWith(3);
+      expect(mockCollectionRef.stream).toHaveBeenCalledTimes(1);
+      expect(ids).toEqual(['A', 'B', 'C']);
+    });
+
+    it('should yield document data from stream()', async () => {
+      const names: string[] = [];
+      for await (const item of queryBuilder.stream()) {
+        names.push(item.name);
+      }
+
+      expect(names).toEqual(['A', 'B', 'C']);
+    });
+
+    it('should destroy the underlying stream when the consumer breaks early', async () => {
+      for await (const item of queryBuilder.stream()) {
+        if (item.name === 'A') {
+          break;
+        }
+      }
+
+      expect(mockStream.destroy).toHaveBeenCalled();
+      expect(mockStream.destroyed).toBe(true);
+    });
+
+    it('should refuse to stream inside a transaction', async () => {
+      const iterator = queryBuilder.withTransaction({} as any).stream();
+
+      await expect(iterator.next())
+        .rejects.toThrow('Streaming is not supported for queries bound to a transaction; use get() instead.');
+      expect(mockCollectionRef.stream).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('aggregation', () => {
+    let mockAggregateQuery: any;
+
+    beforeEach(() => {
+      mockAggregateQuery = { get: jest.fn() };
+      mockCollectionRef.aggregate = jest.fn().mockReturnValue(mockAggregateQuery);
+    });
+
+    const aggregateSpecOf = (callIndex = 0) => mockCollectionRef.aggregate.mock.calls[callIndex][0];
+
+    it('should run aggregate() on the built query and return the typed data', async () => {
+      const { AggregateField } = jest.requireActual('firebase-admin/firestore');
+      mockAggregateQuery.get.mockResolvedValue({ data: () => ({ total: 10, mean: 2.5 }) });
+
+      const result = await (queryBuilder as any)._where('active', '==', true).aggregate({
+        total: AggregateField.sum('count'),
+        mean: AggregateField.average('count'),
+      });
+
+      expect(mockCollectionRef.where).toHaveBeenCalledWith('active', '==', true);
+      expect(Object.keys(aggregateSpecOf())).toEqual(['total', 'mean']);
+      expect(result).toEqual({ total: 10, mean: 2.5 });
+    });
+
+    it('should count matching documents', async () => {
+      mockAggregateQuery.get.mockResolvedValue({ data: () => ({ count: 42 }) });
+
+      await expect(queryBuilder.count()).resolves.toBe(42);
+      expect(aggregateSpecOf().count.aggregateType).toBe('count');
+      expect(mockCollectionRef.get).not.toHaveBeenCalled();
+    });
+
+    it('should sum and average a field', async () => {
+      mockAggregateQuery.get
+        .mockResolvedValueOnce({ data: () => ({ sum: 7 }) })
+        .mockResolvedValueOnce({ data: () => ({ average: null }) });
+
+      await expect(queryBuilder.sum('count')).resolves.toBe(7);
+      await expect(queryBuilder.average('count')).resolves.toBeNull();
+      expect(aggregateSpecOf(0).sum.aggregateType).toBe('sum');
+      expect(aggregateSpecOf(1).average.aggregateType).toBe('avg');
+    });
+
+    it('should read through the transaction if bound to one', async () => {
+      const mockTransaction = { get: jest.fn().mockResolvedValue({ data: () => ({ count: 3 }) }) } as any;
+
+      await expect(queryBuilder.withTransaction(mockTransaction).count()).resolves.toBe(3);
+      expect(mockTransaction.get).toHaveBeenCalledWith(mockAggregateQuery);
+      expect(mockAggregateQuery.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pagination', () => {
+    const mockDoc = (name: string) => ({ id: name, data: () => ({ name } as TestData) }) as any;
+    const mockSnapshotOf = (names: string[]) => ({ docs: names.map(mockDoc), size: names.length }) as any;
+
+    it('should require an orderBy constraint', async () => {
+      await expect(queryBuilder.getPage({ pageSize: 2 }))
+        .rejects.toThrow('Pagination requires at least one orderBy constraint for stable ordering.');
+      expect(() => queryBuilder.paginate(2))
+        .toThrow('Pagination requires at least one orderBy constraint for stable ordering.');
+    });
+
+    it('should reject invalid page sizes and existing limits', async () => {
+      await expect(queryBuilder.orderBy('name').getPage({ pageSize: 0 }))
+        .rejects.toThrow('Page size must be a positive integer, got 0');
+      await expect(queryBuilder.orderBy('name').limit(5).getPage({ pageSize: 2 }))
+        .rejects.toThrow("Pagination cannot be combined with a 'limit' constraint; use the page size instead.");
+    });
+
+    it('should fetch one extra document to detect further pages in getPage()', async () => {
+      mockQueryChainableMethods.get.mockResolvedValue(mockSnapshotOf(['A', 'B', 'C']));
+      const afterSnapshot = mockDoc('Z');
+
+      const page = await queryBuilder.orderBy('name').getPage({ pageSize: 2, after: afterSnapshot });
+
+      expect(mockCollectionRef.orderBy).toHaveBeenCalledWith('name', 'asc');
+      expect(mockCollectionRef.limit).toHaveBeenCalledWith(3);
+      expect(mockCollectionRef.startAfter).toHaveBeenCalledWith(afterSnapshot);
+      expect(page.data).toEqual([{ name: 'A' }, { name: 'B' }]);
+      expect(page.docs.map(doc => doc.id)).toEqual(['A', 'B']);
+      expect(page.lastSnapshot?.id).toBe('B');
+      expect(page.hasMore).toBe(true);
+    });
+
+    it('should report the last page in getPage()', async () => {
+      mockQueryChainableMethods.get.mockResolvedValue(mockSnapshotOf(['A']));
+
+      const page = await queryBuilder.orderBy('name').getPage({ pageSize: 2 });
+
+      expect(mockCollectionRef.startAfter).not.toHaveBeenCalled();
+      expect(page.hasMore).toBe(false);
+      expect(page.lastSnapshot?.id).toBe('A');
+    });
+
+    it('should iterate through every page with paginate()', async () => {
+      mockQueryChainableMethods.get
+        .mockResolvedValueOnce(mockSnapshotOf(['A', 'B', 'C']))
+        .mockResolvedValueOnce(mockSnapshotOf(['C', 'D', 'E']))
+        .mockResolvedValueOnce(mockSnapshotOf(['E']));
+
+      const pages: string[][] = [];
+      for await (const page of queryBuilder.orderBy('name').paginate(2)) {
+        pages.push(page.data.map(item => item.name));
+      }
+
+      expect(pages).toEqual([['A', 'B'], ['C', 'D'], ['E']]);
+      expect(mockCollectionRef.get).toHaveBeenCalledTimes(3);
+      expect(mockCollectionRef.startAfter.mock.calls.map((call: any[]) => call[0].id)).toEqual(['B', 'D']);
+    });
+
+    it('should not yield an empty page', async () => {
+      mockQueryChainableMethods.get.mockResolvedValue(mockSnapshotOf([]));
+
+      const pages = [];
+      for await (const page of queryBuilder.orderBy('name').paginate(10)) {
+        pages.push(page);
+      }
+
+      expect(pages).toEqual([]);
+    });
+  });
+
+  describe('page tokens', () => {
+    const mockSnapshot = (path: string, values: Record<string, unknown>) => ({
+      ref: { path },
+      get: jest.fn((fieldPath: string) => values[String(fieldPath)]),
+    }) as any;
+
+    beforeEach(() => {
+      (mockFirestore as any).doc = jest.fn((path: string) => ({ path }));
+    });
+
+    it('should require an orderBy constraint to create a token', () => {
+      expect(() => queryBuilder.createPageToken(mockSnapshot('test-collection/a', {}), { secret: 'k' }))
+        .toThrow('Page tokens require at least one orderBy constraint.');
+    });
+
+    it('should reject snapshots missing an orderBy value', () => {
+      expect(() => queryBuilder.orderBy('name').createPageToken(mockSnapshot('test-collection/a', {}), { secret: 'k' }))
+        .toThrow("Cannot create a page token: document 'test-collection/a' has no value for orderBy field 'name'");
+    });
+
+    it('should resume after the encoded position with a document ID tie-breaker', () => {
+      const query = (queryBuilder as any)._where('active', '==', true).orderBy('count', 'desc').orderBy('name');
+      const token = query.createPageToken(mockSnapshot('test-collection/doc-7', { count: 3, name: 'G' }), { secret: 'k' });
+
+      // A fresh builder with the same shape, as a later HTTP request would create
+      const resumed = (queryBuilder as any)._where('active', '==', true).orderBy('count', 'desc').orderBy('name')
+        .startAfterPageToken(token, { secret: 'k' });
+      resumed.buildQuery();
+
+      const orderByCalls = mockCollectionRef.orderBy.mock.calls;
+      expect(String(orderByCalls[2][0])).toBe('__name__');
+      expect(orderByCalls[2][1]).toBe('asc');
+      expect(mockCollectionRef.startAfter).toHaveBeenCalledWith(3, 'G', { path: 'test-collection/doc-7' });
+      expect(mockFirestore.doc).toHaveBeenCalledWith('test-collection/doc-7');
+    });
+
+    it('should place the document reference at an explicit document ID orderBy', () => {
+      const { FieldPath } = jest.requireActual('firebase-admin/firestore');
+      const query = queryBuilder.orderBy(FieldPath.documentId()).orderBy('name');
+      const token = query.createPageToken(mockSnapshot('test-collection/doc-1', { name: 'A' }), { secret: 'k' });
+
+      query.startAfterPageToken(token, { secret: 'k' }).buildQuery();
+
+      expect(mockCollectionRef.orderBy).toHaveBeenCalledTimes(2);
+      expect(mockCollectionRef.startAfter).toHaveBeenCalledWith({ path: 'test-collection/doc-1' }, 'A');
+    });
+
+    it('should reject tokens created for a different query shape', () => {
+      const token = queryBuilder.orderBy('name').createPageToken(mockSnapshot('test-collection/a', { name: 'A' }), { secret: 'k' });
+
+      expect(() => queryBuilder.orderBy('name', 'desc').startAfterPageToken(token, { secret: 'k' }))
+        .toThrow('Page token was created for a different query.');
+      expect(() => (queryBuilder as any)._where('active', '==', false).orderBy('name').startAfterPageToken(token, { secret: 'k' }))
+        .toThrow('Page token was created for a different query.');
+    });
+
+    it('should ignore limits and cursors when matching the query shape', () => {
+      const token = queryBuilder.orderBy('name').limit(10).createPageToken(mockSnapshot('test-collection/a', { name: 'A' }), { secret: 'k' });
+
+      expect(() => queryBuilder.orderBy('name').limit(20).startAfterPageToken(token, { secret: 'k' })).not.toThrow();
+    });
+
+    it('should reject signed tokens whose document is not in the queried collection', () => {
+      const query = queryBuilder.orderBy('name');
+      const tokenFor = (path: string) => query.createPageToken(mockSnapshot(path, { name: 'A' }), { secret: 'k' });
+
+      for (const path of ['other-collection/a', 'test-collection', 'test-collection/a/sub/b', 'test-collection/']) {
+        const error = (() => { try { query.startAfterPageToken(tokenFor(path), { secret: 'k' }); } catch (e) { return e; } })();
+        expect(error).toBeInstanceOf(PageTokenError);
+      }
+    });
+
+    it('should report cursor values that cannot be decoded as a PageTokenError', () => {
+      const query = queryBuilder.orderBy('name');
+      const token = encodePageToken(
+        { v: 1, q: (query as any).queryShapeHash(), c: [{ __type: 'unknown' } as any], p: 'test-collection/a' },
+        { secret: 'k' }
+      );
+
+      expect(() => query.startAfterPageToken(token, { secret: 'k' })).toThrow(PageTokenError);
+      expect(() => query.startAfterPageToken(token, { secret: 'k' })).toThrow('Page token contains invalid cursor values.');
+    });
+  });
+
+  describe('withTransaction()', () => {
+    it('should execute the built query through transaction.get()', async () => {
+      const mockSnapshotData = { docs: [], empty: true, size: 0 } as any;
+      const mockTransaction = { get: jest.fn().mockResolvedValue(mockSnapshotData) } as any;
+
+      const txBuilder = queryBuilder.withTransaction(mockTransaction);
+      const result = await txBuilder.limit(3).getSnapshot();
+
+      expect(txBuilder).not.toBe(queryBuilder);
+      expect((queryBuilder as any).transaction).toBeUndefined();
+      expect(mockCollectionRef.limit).toHaveBeenCalledWith(3);
+      expect(mockTransaction.get).toHaveBeenCalledWith(mockCollectionRef);
+      expect(mockCollectionRef.get).not.toHaveBeenCalled();
+      expect(result).toBe(mockSnapshotData);
+    });
+
+    it('should accept the transaction through the constructor', async () => {
+      const mockTransaction = { get: jest.fn().mockResolvedValue({ docs: [] }) } as any;
+      const txBuilder = new AdminBaseQueryBuilder<TestData>(mockFirestore, mockCollectionRef, mockTransaction);
+
+      await txBuilder.get();
+
+      expect(mockTransaction.get).toHaveBeenCalledTimes(1);
+      expect(mockCollectionRef.get).not.toHaveBeenCalled();
+    });
+  });
+
   // --- Test Chaining ---
   it('should allow chaining and build the correct query', () => {
     const finalBuilder = (queryBuilder as any)
@@ -1,5 +1,7 @@
-import { AdminBaseUpdateBuilder } from '../baseUpdateBuilder';
-import { FieldValue as AdminFieldValue } from 'firebase-admin/firestore';
+import { AdminBaseUpdateBuilder, FieldPathConflictError, setEmptyCommitDefaults } from '../baseUpdateBuilder';
+import { AdminConflictError } from '../precondition';
+import { referenceIdCodec } from '../converter';
+import { FieldValue as AdminFieldValue, FieldPath, Timestamp as AdminTimestamp } from 'firebase-admin/firestore';
 import type {
   Firestore,
   DocumentReference,
@@ -39,8 +41,10 @@ jest.mock('firebase-admin/firestore', () => {
 // Mock DocumentReference methods
 const mockWriteResult: WriteResult = { writeTime: { seconds: 1, nanoseconds: 1 } as Timestamp } as WriteResult;
 const mockDocRef: jest.Mocked<DocumentReference> = {
+  path: 'items/doc1',
   update: jest.fn().mockResolvedValue(mockWriteResult),
   set: jest.fn().mockResolvedValue(mockWriteResult), // Needed if testing set through builder
+  create: jest.fn().mockResolvedValue(mockWriteResult), // Needed for upserts with schema defaults
   delete: jest.fn().mockResolvedValue(mockWriteResult), // Needed if testing delete through builder
   // Add other methods if needed
 } as any;
@@ -51,6 +55,7 @@ interface TestData extends DocumentData {
   count?: number | AdminFieldValue; // Allow FieldValue for increment
   tags?: string[] | AdminFieldValue; // Allow FieldValue for array ops
   nested?: { value?: string | AdminFieldValue }; // Allow FieldValue for delete
+  settings?: { notifications?: Record<string, boolean> }; // Map with dynamic keys
   lastUpdated?: AdminFieldValue; // Allow FieldValue for serverTimestamp
 }
 
@@ -156,20 +161,449 @@ describe('AdminBaseUpdateBuilder', () => {
       const result = await builderWithUpdates.commit(); // Commit the final builder state
 
       expect(mockDocRef.update).toHaveBeenCalledWith(updates);
-      // Check that the promise resolves for a no-op commit
-      await expect(updateBuilder.commit()).resolves.toBeDefined();
+      expect(result).toEqual({ status: 'written', writeResult: mockWriteResult });
     });
+  });
+
+  describe('empty commits', () => {
+    const logger = { warn: jest.fn() };
+
+    afterEach(() => {
+      setEmptyCommitDefaults({ emptyCommitPolicy: 'warn', logger: console });
+    });
+
+    it('should warn and resolve to a no-op by default, without calling docRef.update()', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
 
-    it('should call docRef.update() with an empty object if no updates were made', async () => {
-      // No updates added to builder
       const result = await updateBuilder.commit();
 
-      expect(mockDocRef.update).not.toHaveBeenCalled(); // Should not call update if no changes
-      // The commit method returns a WriteResult, but the empty placeholder {} won't match
-      // We should check that the promise resolves without error for a no-op
-      await expect(updateBuilder.commit()).resolves.toBeDefined();
-      // Or, if we want to check the placeholder specifically:
-      // expect(result).toEqual({}); // Check against the empty placeholder if that's intended
+      expect(mockDocRef.update).not.toHaveBeenCalled();
+      expect(result).toEqual({ status: 'noop' });
+      expect(warn).toHaveBeenCalledWith("Update of document 'items/doc1' has no changes to commit; skipped.");
+      warn.mockRestore();
+    });
+
+    it('should follow the per-builder policy and logger', async () => {
+      const throwing = new AdminBaseUpdateBuilder<TestData>(mockDocRef, { emptyCommitPolicy: 'throw' });
+
+      await expect(throwing.commit()).rejects.toThrow("Update of document 'items/doc1' has no changes to commit");
+      await expect(updateBuilder.withEmptyCommitPolicy('skip').commit()).resolves.toEqual({ status: 'noop' });
+      await updateBuilder.withEmptyCommitPolicy('warn', logger).commit();
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should follow the global defaults unless the builder sets its own policy', async () => {
+      setEmptyCommitDefaults({ emptyCommitPolicy: 'throw', logger });
+
+      await expect(updateBuilder.commit()).rejects.toThrow();
+      await expect(updateBuilder.withEmptyCommitPolicy('warn').commit()).resolves.toEqual({ status: 'noop' });
+      expect(logger.warn).toHaveBeenCalledWith("Update of document 'items/doc1' has no changes to commit; skipped.");
+    });
+  });
+
+  describe('withTransaction()', () => {
+    it('should queue the update on the transaction instead of calling docRef.update()', async () => {
+      const mockTransaction = { update: jest.fn() } as any;
+      const txBuilder = (updateBuilder.withTransaction(mockTransaction) as any)._set('name', 'Tx Name');
+
+      const result = await txBuilder.commit();
+
+      expect(mockTransaction.update).toHaveBeenCalledWith(mockDocRef, { name: 'Tx Name' });
+      expect(mockDocRef.update).not.toHaveBeenCalled();
+      expect(result).toEqual({ status: 'queued' });
+      expect((updateBuilder as any)._transaction).toBeUndefined();
+    });
+
+    it('should accept the transaction through the constructor options', async () => {
+      const mockTransaction = { update: jest.fn() } as any;
+      const txBuilder = new AdminBaseUpdateBuilder<TestData>(mockDocRef, { transaction: mockTransaction });
+
+      await (txBuilder as any)._increment('count', 1).commit();
+
+      expect(mockTransaction.update).toHaveBeenCalledWith(mockDocRef, { count: { ...MOCK_INCREMENT_SENTINEL, value: 1 } });
+    });
+  });
+
+  describe('withBatch()', () => {
+    it('should queue the update on the batch instead of calling docRef.update()', async () => {
+      const mockBatch = { update: jest.fn() } as any;
+      const batchBuilder = (updateBuilder.withBatch(mockBatch) as any)._set('name', 'Batch Name');
+
+      const result = await batchBuilder.commit();
+
+      expect(mockBatch.update).toHaveBeenCalledWith(mockDocRef, { name: 'Batch Name' });
+      expect(mockDocRef.update).not.toHaveBeenCalled();
+      expect(result).toEqual({ status: 'queued' });
+    });
+
+    it('should accept the batch through the constructor options', async () => {
+      const mockBatch = { update: jest.fn() } as any;
+      const batchBuilder = new AdminBaseUpdateBuilder<TestData>(mockDocRef, { batch: mockBatch });
+
+      await (batchBuilder as any)._set('name', 'Ctor Batch').commit();
+
+      expect(mockBatch.update).toHaveBeenCalledWith(mockDocRef, { name: 'Ctor Batch' });
+    });
+  });
+
+  describe('schema validation', () => {
+    const schema = {
+      fields: {
+        name: { type: 'string' as const, max: 5 },
+        nested: { type: 'map' as const, fields: { value: { type: 'string' as const } } },
+      },
+    };
+
+    it('should throw a SchemaValidationError from _set() for invalid values', () => {
+      const validatedBuilder = new AdminBaseUpdateBuilder<TestData>(mockDocRef, { schema });
+
+      expect(() => (validatedBuilder as any)._set('nested.value', 42)).toThrow(
+        expect.objectContaining({ issues: [{ path: 'nested.value', rule: 'type', message: 'expected string, got number' }] })
+      );
+      expect(() => (validatedBuilder as any)._set('name', 'Too long')).toThrow('name: must be at most 5 in length, got 8');
+    });
+
+    it('should accept valid values and FieldValue sentinels', () => {
+      const validatedBuilder = new AdminBaseUpdateBuilder<TestData>(mockDocRef, { schema });
+
+      const result = (validatedBuilder as any)._set('name', 'Ok')._serverTimestamp('nested.value');
+
+      expect((result as any)._updateData).toEqual({ name: 'Ok', 'nested.value': MOCK_SERVER_TIMESTAMP });
+    });
+
+    it('should encode values with their field codecs before validating them when applyCodecs is set', () => {
+      const mockUserRef = { id: 'u1', path: 'users/u1', collection: jest.fn() };
+      const mockFirestore = { collection: jest.fn(() => ({ doc: jest.fn(() => mockUserRef) })) };
+      const codecSchema = {
+        fields: {
+          owner: { type: 'reference' as const, codec: referenceIdCodec('users') },
+          name: { codec: { toFirestore: (value: string) => value.toUpperCase(), fromFirestore: (value: string) => value } },
+          nested: { type: 'map' as const, fields: { value: { codec: { toFirestore: (value: string) => `#${value}`, fromFirestore: (value: string) => value } } } },
+        },
+      };
+      const codecBuilder = new AdminBaseUpdateBuilder<TestData>({ ...mockDocRef, firestore: mockFirestore } as any, { schema: codecSchema, applyCodecs: true });
+
+      const result = (codecBuilder as any)._set('owner', 'u1')._set('name', 'abc')._set('nested', { value: 'x' })._deleteField('tags');
+
+      expect(mockFirestore.collection).toHaveBeenCalledWith('users');
+      expect(result._updateData).toEqual({ owner: mockUserRef, name: 'ABC', nested: { value: '#x' }, tags: MOCK_DELETE_SENTINEL });
+      // Without applyCodecs the application value is validated as is
+      expect(() => (new AdminBaseUpdateBuilder<TestData>(mockDocRef, { schema: codecSchema }) as any)._set('owner', 'u1'))
+        .toThrow('owner: expected reference, got string');
+    });
+  });
+
+  describe('field paths', () => {
+    it('should accept FieldPaths and raw segments, keyed by their escaped path', () => {
+      const result = (updateBuilder as any)
+        ._set(new FieldPath('nested', 'value'), 'From FieldPath')
+        ._set(['settings', 'notifications', 'email.work'], true);
+
+      expect(result._updateData).toEqual({
+        'nested.value': 'From FieldPath',
+        'settings.notifications.`email.work`': true,
+      });
+    });
+
+    it('should support typed dynamic map keys through _setPath()', () => {
+      const channelId = 'sms';
+      const result = (updateBuilder as any)._setPath(['settings', 'notifications', channelId], false);
+
+      expect(result._updateData).toEqual({ 'settings.notifications.sms': false });
+    });
+
+    it('should reject invalid dotted paths', () => {
+      expect(() => (updateBuilder as any)._set('tags[0]', 'x'))
+        .toThrow("Invalid field path 'tags[0]': quote segments containing '[' in backticks");
+      expect(() => (updateBuilder as any)._set('nested..value', 'x')).toThrow("Invalid field path 'nested..value': empty segment");
+    });
+
+    it('should commit quoted field names as FieldPath/value pairs', async () => {
+      await (updateBuilder as any)
+        ._set('name', 'Plain')
+        ._set(['settings', 'notifications', 'email.work'], true)
+        .commit();
+
+      expect(mockDocRef.update).toHaveBeenCalledWith(
+        new FieldPath('name'), 'Plain',
+        new FieldPath('settings', 'notifications', 'email.work'), true
+      );
+    });
+
+    it('should pass FieldPath/value pairs to transactions and batches', async () => {
+      const mockTransaction = { update: jest.fn() } as any;
+      const mockBatch = { update: jest.fn() } as any;
+      const builder = (updateBuilder as any)._set(['a.b'], 1);
+
+      await builder.withTransaction(mockTransaction).commit();
+      await builder.withBatch(mockBatch).commit();
+
+      expect(mockTransaction.update).toHaveBeenCalledWith(mockDocRef, new FieldPath('a.b'), 1);
+      expect(mockBatch.update).toHaveBeenCalledWith(mockDocRef, [[new FieldPath('a.b'), 1]]);
+    });
+
+    it('should validate dynamic map entries against the schema', () => {
+      const schema = {
+        fields: {
+          settings: {
+            type: 'map' as const,
+            fields: { notifications: { type: 'map' as const, values: { type: 'boolean' as const } } },
+          },
+        },
+      };
+      const validatedBuilder = new AdminBaseUpdateBuilder<TestData>(mockDocRef, { schema });
+
+      expect(() => (validatedBuilder as any)._set(['settings', 'notifications', 'email.work'], 'yes')).toThrow(
+        expect.objectContaining({
+          issues: [{ path: 'settings.notifications.`email.work`', rule: 'type', message: 'expected boolean, got string' }],
+        })
+      );
+      expect(() => (validatedBuilder as any)._set(['settings', 'notifications', 'sms'], true)).not.toThrow();
+    });
+  });
+
+  describe('withPrecondition()', () => {
+    const lastUpdateTime = AdminTimestamp.fromMillis(1714557600000);
+
+    it('should pass a lastUpdateTime precondition to docRef.update()', async () => {
+      const builder = (updateBuilder as any)._set('name', 'Checked').withPrecondition({ lastUpdateTime });
+
+      expect(builder).not.toBe(updateBuilder);
+      await builder.commit();
+      await (builder as any)._set(['a.b'], 1).commit();
+
+      expect(mockDocRef.update).toHaveBeenNthCalledWith(1, { name: 'Checked' }, { lastUpdateTime });
+      expect(mockDocRef.update).toHaveBeenNthCalledWith(
+        2, new FieldPath('name'), 'Checked', new FieldPath('a.b'), 1, { lastUpdateTime }
+      );
+    });
+
+    it('should pass the precondition to transactions and batches', async () => {
+      const mockTransaction = { update: jest.fn() } as any;
+      const mockBatch = { update: jest.fn() } as any;
+      const builder = (updateBuilder as any)._set('name', 'Checked').withPrecondition({ lastUpdateTime });
+
+      await builder.withTransaction(mockTransaction).commit();
+      await builder.withBatch(mockBatch).commit();
+
+      expect(mockTransaction.update).toHaveBeenCalledWith(mockDocRef, { name: 'Checked' }, { lastUpdateTime });
+      expect(mockBatch.update).toHaveBeenCalledWith(mockDocRef, { name: 'Checked' }, { lastUpdateTime });
+    });
+
+    it('should reject with an AdminConflictError when the document changed', async () => {
+      const failedPrecondition = Object.assign(new Error('FAILED_PRECONDITION'), { code: 9 });
+      mockDocRef.update.mockRejectedValueOnce(failedPrecondition);
+
+      const commit = (updateBuilder as any)._set('name', 'Stale').withPrecondition({ lastUpdateTime }).commit();
+
+      await expect(commit).rejects.toBeInstanceOf(AdminConflictError);
+      await expect(commit).rejects.toMatchObject({ path: 'items/doc1', lastUpdateTime, cause: failedPrecondition });
+    });
+  });
+
+  describe('withUpsert()', () => {
+    const schema = {
+      fields: {
+        name: { type: 'string' as const, defaultValue: 'Unnamed' },
+        count: { type: 'number' as const, defaultValue: 0 },
+        lastUpdated: { defaultValue: 'serverTimestamp' },
+      },
+    };
+
+    it('should commit a set merging exactly the updated fields, with dotted paths expanded into nested maps', async () => {
+      const result = await (updateBuilder as any)
+        .withUpsert()
+        ._set('nested.value', 'Nested')
+        ._set(['settings', 'notifications', 'sms'], true)
+        ._increment('count', 2)
+        ._deleteField('tags')
+        .commit();
+
+      expect(mockDocRef.update).not.toHaveBeenCalled();
+      expect(mockDocRef.set).toHaveBeenCalledWith({
+        nested: { value: 'Nested' },
+        settings: { notifications: { sms: true } },
+        count: { ...MOCK_INCREMENT_SENTINEL, value: 2 },
+        tags: MOCK_DELETE_SENTINEL,
+      }, {
+        mergeFields: [
+          new FieldPath('nested', 'value'),
+          new FieldPath('settings', 'notifications', 'sms'),
+          new FieldPath('count'),
+          new FieldPath('tags'),
+        ],
+      });
+      expect(result).toEqual({ status: 'written', writeResult: mockWriteResult });
+    });
+
+    it('should merge nested field names containing dots with merge: true, which the SDK can apply', async () => {
+      await (updateBuilder as any).withUpsert()._set(['settings', 'notifications', 'email.work'], true)._set(['a.b'], 1).commit();
+
+      expect(mockDocRef.set).toHaveBeenCalledWith(
+        { settings: { notifications: { 'email.work': true } }, 'a.b': 1 },
+        { merge: true }
+      );
+    });
+
+    it('should reject nested field names containing dots together with a whole map', async () => {
+      const commit = (updateBuilder as any).withUpsert()
+        ._set(['settings', 'notifications', 'email.work'], true)
+        ._set('nested', { value: 'Only' })
+        .commit();
+
+      await expect(commit).rejects.toThrow(
+        "Cannot upsert document 'items/doc1': nested field names containing dots, such as "
+        + "'settings.notifications.`email.work`', cannot be combined with setting a whole map"
+      );
+    });
+
+    it('should replace a map set as a whole, as update() does, instead of deep-merging it', async () => {
+      await (updateBuilder as any).withUpsert()._set('nested', { value: 'Only' }).commit();
+
+      expect(mockDocRef.set).toHaveBeenCalledWith({ nested: { value: 'Only' } }, { mergeFields: [new FieldPath('nested')] });
+    });
+
+    it('should queue the set on transactions and batches', async () => {
+      const mockTransaction = { set: jest.fn() } as any;
+      const mockBatch = { set: jest.fn() } as any;
+      const builder = (updateBuilder as any)._set('nested.value', 'x').withUpsert();
+
+      await builder.withTransaction(mockTransaction).commit();
+      await builder.withBatch(mockBatch).commit();
+
+      const options = { mergeFields: [new FieldPath('nested', 'value')] };
+      expect(mockTransaction.set).toHaveBeenCalledWith(mockDocRef, { nested: { value: 'x' } }, options);
+      expect(mockBatch.set).toHaveBeenCalledWith(mockDocRef, { nested: { value: 'x' } }, options);
+    });
+
+    it('should reject a lastUpdateTime precondition', async () => {
+      const commit = (updateBuilder as any)._set('name', 'x').withUpsert()
+        .withPrecondition({ lastUpdateTime: AdminTimestamp.fromMillis(1) }).commit();
+
+      await expect(commit).rejects.toThrow("Cannot upsert document 'items/doc1' with a lastUpdateTime precondition");
+    });
+
+    describe('with applyDefaults', () => {
+      const mergeOptions = { mergeFields: [new FieldPath('name'), new FieldPath('tags')] };
+      let schemaBuilder: AdminBaseUpdateBuilder<TestData>;
+
+      beforeEach(() => {
+        // create() rejects delete sentinels, so they must be recognisable
+        MOCK_DELETE_SENTINEL.isEqual.mockImplementation((other: any) => other === MOCK_DELETE_SENTINEL);
+        schemaBuilder = (new AdminBaseUpdateBuilder<TestData>(mockDocRef, { schema }) as any)
+          ._set('name', 'Given')
+          ._deleteField('tags')
+          .withUpsert({ applyDefaults: true });
+      });
+
+      it('should create the document with schema defaults if it does not exist', async () => {
+        const result = await schemaBuilder.commit();
+
+        expect(mockDocRef.create).toHaveBeenCalledWith({ name: 'Given', count: 0, lastUpdated: MOCK_SERVER_TIMESTAMP });
+        expect(mockDocRef.set).not.toHaveBeenCalled();
+        expect(result).toEqual({ status: 'written', writeResult: mockWriteResult });
+      });
+
+      it('should fall back to a merging set without defaults if the document exists', async () => {
+        mockDocRef.create.mockRejectedValueOnce(Object.assign(new Error('ALREADY_EXISTS'), { code: 6 }));
+
+        await schemaBuilder.commit();
+
+        expect(mockDocRef.set).toHaveBeenCalledWith({ name: 'Given', tags: MOCK_DELETE_SENTINEL }, mergeOptions);
+      });
+
+      it('should rethrow other create() errors', async () => {
+        const error = new Error('PERMISSION_DENIED');
+        mockDocRef.create.mockRejectedValueOnce(error);
+
+        await expect(schemaBuilder.commit()).rejects.toBe(error);
+        expect(mockDocRef.set).not.toHaveBeenCalled();
+      });
+
+      it('should use the existence passed to withUpsert() in transactions and batches, without reading', async () => {
+        const mockTransaction = { get: jest.fn(), create: jest.fn(), set: jest.fn() } as any;
+        const mockBatch = { create: jest.fn(), set: jest.fn() } as any;
+
+        await schemaBuilder.withUpsert({ applyDefaults: true, exists: false }).withTransaction(mockTransaction).commit();
+        await schemaBuilder.withUpsert({ applyDefaults: true, exists: true }).withTransaction(mockTransaction).commit();
+        await schemaBuilder.withUpsert({ applyDefaults: true, exists: false }).withBatch(mockBatch).commit();
+
+        expect(mockTransaction.get).not.toHaveBeenCalled();
+        expect(mockTransaction.create).toHaveBeenCalledWith(mockDocRef, { name: 'Given', count: 0, lastUpdated: MOCK_SERVER_TIMESTAMP });
+        expect(mockTransaction.set).toHaveBeenCalledWith(mockDocRef, { name: 'Given', tags: MOCK_DELETE_SENTINEL }, mergeOptions);
+        expect(mockBatch.create).toHaveBeenCalledWith(mockDocRef, { name: 'Given', count: 0, lastUpdated: MOCK_SERVER_TIMESTAMP });
+      });
+
+      it('should require the existence in transactions and batches', async () => {
+        const message = "Cannot apply schema defaults when upserting document 'items/doc1' in a transaction or batch "
+          + 'without knowing whether it exists; pass `exists` to withUpsert()';
+
+        await expect(schemaBuilder.withTransaction({ get: jest.fn() } as any).commit()).rejects.toThrow(message);
+        await expect(schemaBuilder.withBatch({ set: jest.fn() } as any).commit()).rejects.toThrow(message);
+      });
+    });
+  });
+
+  describe('field path conflicts', () => {
+    it('should reject a field together with a field below it, in either order', () => {
+      expect(() => (updateBuilder as any)._set('nested', { value: 'a' })._set('nested.value', 'b')).toThrow(
+        "Conflicting updates of 'nested' and 'nested.value' in document 'items/doc1': a field cannot be updated together with a field below it"
+      );
+      expect(() => (updateBuilder as any)._set(['settings', 'notifications', 'email.work'], true)._deleteField('settings'))
+        .toThrow(expect.objectContaining({
+          name: 'FieldPathConflictError',
+          existingPath: 'settings.notifications.`email.work`',
+          path: 'settings',
+        }));
+    });
+
+    it('should not treat fields sharing a name prefix as nested', () => {
+      expect(() => (updateBuilder as any)._set('nested.value', 'a')._set('nested.valueCount', 1)._set('nestedOther', 2))
+        .not.toThrow();
+    });
+
+    it('should reject a FieldValue operation combined with another update of the same field', () => {
+      expect(() => (updateBuilder as any)._increment('count', 1)._deleteField('count')).toThrow(FieldPathConflictError);
+      expect(() => (updateBuilder as any)._set('name', 'a')._serverTimestamp('name')).toThrow(
+        "Conflicting updates of 'name' and 'name' in document 'items/doc1': a FieldValue operation cannot be combined with another update of the same field"
+      );
+    });
+
+    it('should let a plain value replace an earlier one', () => {
+      const result = (updateBuilder as any)._set('name', 'First')._set('name', 'Second');
+
+      expect(result._updateData).toEqual({ name: 'Second' });
+    });
+  });
+
+  describe('applyDiff()', () => {
+    it('should add the minimal updates between two versions of the document', async () => {
+      const before: TestData = { name: 'Old', count: 1, tags: ['a'], nested: { value: 'x' }, settings: { notifications: { sms: true } } };
+      const after: TestData = { name: 'New', count: 1, tags: ['a', 'b'], settings: { notifications: { sms: true, 'email.work': false } } };
+
+      const result = await updateBuilder.applyDiff(before, after, { arrayOperations: true }).commit();
+
+      expect(AdminFieldValue.arrayUnion).toHaveBeenCalledWith('b');
+      expect(mockDocRef.update).toHaveBeenCalledWith(
+        new FieldPath('name'), 'New',
+        new FieldPath('tags'), { ...MOCK_ARRAY_UNION_SENTINEL, elements: ['b'] },
+        new FieldPath('settings', 'notifications', 'email.work'), false,
+        new FieldPath('nested'), MOCK_DELETE_SENTINEL
+      );
+      expect(result).toEqual({ status: 'written', writeResult: mockWriteResult });
+    });
+
+    it('should validate the diffed values against the schema', () => {
+      const schema = { fields: { name: { type: 'string' as const, max: 5 } } };
+      const validatedBuilder = new AdminBaseUpdateBuilder<TestData>(mockDocRef, { schema });
+
+      expect(() => validatedBuilder.applyDiff({ name: 'Ok' }, { name: 'Too long' })).toThrow('name: must be at most 5 in length, got 8');
+    });
+
+    it('should resolve to a no-op when nothing changed', async () => {
+      const result = await updateBuilder.withEmptyCommitPolicy('skip').applyDiff({ name: 'Same' }, { name: 'Same' }).commit();
+
+      expect(result).toEqual({ status: 'noop' });
     });
   });
 
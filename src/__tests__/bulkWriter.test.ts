@@ -0,0 +1,126 @@
+import { runBulkWrite, DEFAULT_BULK_MAX_ATTEMPTS } from '../bulkWriter';
+import type { WriteResult, Timestamp } from 'firebase-admin/firestore';
+
+// --- Mocks ---
+
+const mockWriteResult = { writeTime: { seconds: 1, nanoseconds: 1 } as Timestamp } as WriteResult;
+
+let mockBulkWriter: any;
+const mockFirestore = { bulkWriter: jest.fn(() => mockBulkWriter) } as any;
+const mockDocRef = (id: string) => ({ id, path: `items/${id}` }) as any;
+
+// Captures the retry callback registered through onWriteError()
+let registeredShouldRetry: (error: any) => boolean;
+
+// --- Test Suite ---
+
+describe('runBulkWrite', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockBulkWriter = {
+      set: jest.fn().mockResolvedValue(mockWriteResult),
+      update: jest.fn().mockResolvedValue(mockWriteResult),
+      delete: jest.fn().mockResolvedValue(mockWriteResult),
+      onWriteError: jest.fn((callback) => { registeredShouldRetry = callback; }),
+      close: jest.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  it('should not create a BulkWriter when there is nothing to write', async () => {
+    const summary = await runBulkWrite(mockFirestore, []);
+
+    expect(mockFirestore.bulkWriter).not.toHaveBeenCalled();
+    expect(summary).toEqual({ succeeded: [], failed: [] });
+  });
+
+  it('should dispatch each operation to the matching BulkWriter method and close it', async () => {
+    const summary = await runBulkWrite(mockFirestore, [
+      { type: 'set', ref: mockDocRef('a'), data: { name: 'A' } },
+      { type: 'update', ref: mockDocRef('b'), data: { count: 2 } },
+      { type: 'delete', ref: mockDocRef('c') },
+    ]);
+
+    expect(mockFirestore.bulkWriter).toHaveBeenCalledWith(undefined);
+    expect(mockBulkWriter.set).toHaveBeenCalledWith(mockDocRef('a'), { name: 'A' });
+    expect(mockBulkWriter.update).toHaveBeenCalledWith(mockDocRef('b'), { count: 2 });
+    expect(mockBulkWriter.delete).toHaveBeenCalledWith(mockDocRef('c'));
+    expect(mockBulkWriter.close).toHaveBeenCalledTimes(1);
+    expect(summary).toEqual({ succeeded: ['a', 'b', 'c'], failed: [] });
+  });
+
+  it('should pass throttling options to the BulkWriter', async () => {
+    const throttling = { initialOpsPerSecond: 50, maxOpsPerSecond: 100 };
+    await runBulkWrite(mockFirestore, [{ type: 'delete', ref: mockDocRef('a') }], { throttling });
+
+    expect(mockFirestore.bulkWriter).toHaveBeenCalledWith({ throttling });
+  });
+
+  it('should collect failed IDs with their errors and report progress', async () => {
+    const writeError = new Error('PERMISSION_DENIED');
+    mockBulkWriter.delete.mockImplementation((ref: any) =>
+      ref.id === 'b' ? Promise.reject(writeError) : Promise.resolve(mockWriteResult)
+    );
+    const onProgress = jest.fn();
+
+    const summary = await runBulkWrite(
+      mockFirestore,
+      ['a', 'b', 'c'].map(id => ({ type: 'delete' as const, ref: mockDocRef(id) })),
+      { onProgress }
+    );
+
+    expect(summary.succeeded).toEqual(['a', 'c']);
+    expect(summary.failed).toEqual([{ id: 'b', error: writeError }]);
+    expect(onProgress).toHaveBeenCalledTimes(3);
+    expect(onProgress).toHaveBeenLastCalledWith({ total: 3, completed: 3, succeeded: 2, failed: 1 });
+  });
+
+  it('should record operations the BulkWriter rejects synchronously and still flush the others', async () => {
+    const invalidData = new Error('Update() requires either a single JavaScript object or an alternating list of field/value pairs');
+    mockBulkWriter.update.mockImplementationOnce(() => { throw invalidData; });
+    const onProgress = jest.fn();
+
+    const summary = await runBulkWrite(mockFirestore, [
+      { type: 'set', ref: mockDocRef('a'), data: { name: 'A' } },
+      { type: 'update', ref: mockDocRef('b'), data: {} },
+      { type: 'delete', ref: mockDocRef('c') },
+    ], { onProgress });
+
+    expect(mockBulkWriter.delete).toHaveBeenCalledWith(mockDocRef('c'));
+    expect(mockBulkWriter.close).toHaveBeenCalledTimes(1);
+    expect(summary).toEqual({ succeeded: ['a', 'c'], failed: [{ id: 'b', error: invalidData }] });
+    expect(onProgress).toHaveBeenLastCalledWith({ total: 3, completed: 3, succeeded: 2, failed: 1 });
+  });
+
+  describe('retry policy', () => {
+    const runWithPolicy = async (retry?: any) => {
+      await runBulkWrite(mockFirestore, [{ type: 'delete', ref: mockDocRef('a') }], { retry });
+      return registeredShouldRetry;
+    };
+
+    it('should retry default retryable codes up to the default attempt limit', async () => {
+      const shouldRetry = await runWithPolicy();
+
+      expect(shouldRetry({ code: 14, failedAttempts: 1 })).toBe(true); // UNAVAILABLE
+      expect(shouldRetry({ code: 10, failedAttempts: 1 })).toBe(true); // ABORTED
+      expect(shouldRetry({ code: 7, failedAttempts: 1 })).toBe(false); // PERMISSION_DENIED
+      expect(shouldRetry({ code: 14, failedAttempts: DEFAULT_BULK_MAX_ATTEMPTS })).toBe(false);
+    });
+
+    it('should honour custom maxAttempts and retryableCodes', async () => {
+      const shouldRetry = await runWithPolicy({ maxAttempts: 2, retryableCodes: [4] });
+
+      expect(shouldRetry({ code: 4, failedAttempts: 1 })).toBe(true);
+      expect(shouldRetry({ code: 4, failedAttempts: 2 })).toBe(false);
+      expect(shouldRetry({ code: 14, failedAttempts: 1 })).toBe(false);
+    });
+
+    it('should delegate to a custom shouldRetry while attempts remain', async () => {
+      const customShouldRetry = jest.fn(() => true);
+      const shouldRetry = await runWithPolicy({ maxAttempts: 3, shouldRetry: customShouldRetry });
+
+      expect(shouldRetry({ code: 7, failedAttempts: 1 })).toBe(true);
+      expect(shouldRetry({ code: 7, failedAttempts: 3 })).toBe(false);
+      expect(customShouldRetry).toHaveBeenCalledTimes(1);
+    });
+  });
+});
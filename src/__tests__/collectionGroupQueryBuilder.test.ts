@@ -0,0 +1,114 @@
+import { AdminCollectionGroupQueryBuilder } from '../collectionGroupQueryBuilder';
+import type { DocumentData } from 'firebase-admin/firestore';
+
+// --- Mocks ---
+
+interface PostData extends DocumentData {
+  title: string;
+}
+
+const times = { createTime: { seconds: 1 }, updateTime: { seconds: 2 }, readTime: { seconds: 3 } };
+const mockDoc = (path: string) => ({
+  id: path.split('/').pop(),
+  ref: { path },
+  data: () => ({ title: `Title of ${path}` }),
+  ...times,
+});
+
+let mockCollectionGroup: any;
+let mockFirestore: any;
+
+// --- Test Suite ---
+
+describe('AdminCollectionGroupQueryBuilder', () => {
+  beforeEach(() => {
+    mockCollectionGroup = {
+      where: jest.fn(() => mockCollectionGroup),
+      orderBy: jest.fn(() => mockCollectionGroup),
+      get: jest.fn(),
+      withConverter: jest.fn(),
+    };
+    mockFirestore = { collectionGroup: jest.fn(() => mockCollectionGroup) };
+  });
+
+  it('should query the collection group with the inherited constraint methods', async () => {
+    mockCollectionGroup.get.mockResolvedValue({ docs: [mockDoc('users/u1/posts/p1')] });
+    const builder = new AdminCollectionGroupQueryBuilder<PostData, 'users/{userId}'>(mockFirestore, 'posts', 'users/{userId}');
+
+    const data = await builder.orderBy('title').get();
+
+    expect(mockFirestore.collectionGroup).toHaveBeenCalledWith('posts');
+    expect(mockCollectionGroup.orderBy).toHaveBeenCalledWith('title', 'asc');
+    expect(data).toEqual([{ title: 'Title of users/u1/posts/p1' }]);
+  });
+
+  it('should apply the converter to the collection group', () => {
+    const converted = { ...mockCollectionGroup };
+    mockCollectionGroup.withConverter.mockReturnValue(converted);
+    const converter = { toFirestore: jest.fn(), fromFirestore: jest.fn() };
+
+    const builder = new AdminCollectionGroupQueryBuilder<PostData>(mockFirestore, 'posts', 'users/{userId}', converter);
+
+    expect(mockCollectionGroup.withConverter).toHaveBeenCalledWith(converter);
+    expect(builder.buildQuery()).toBe(converted);
+  });
+
+  it('should parse named parent IDs from document paths', () => {
+    const builder = new AdminCollectionGroupQueryBuilder<PostData, 'users/{userId}/orders/{orderId}'>(
+      mockFirestore, 'items', 'users/{userId}/orders/{orderId}'
+    );
+
+    const parentIds = builder.parseParentIds('users/u1/orders/o9/items/i3');
+
+    expect(parentIds).toEqual({ userId: 'u1', orderId: 'o9' });
+    expect(parentIds.orderId).toBe('o9'); // Keys are typed from the template
+  });
+
+  it('should reject document paths outside the parent path template', () => {
+    const builder = new AdminCollectionGroupQueryBuilder<PostData>(mockFirestore, 'posts', 'users/{userId}');
+
+    expect(() => builder.parseParentIds('blogs/b1/posts/p1'))
+      .toThrow("Document 'blogs/b1/posts/p1' does not match the parent path 'users/{userId}/posts/{id}'");
+    expect(() => builder.parseParentIds('users/u1/comments/c1')).toThrow();
+  });
+
+  it('should reject parent path templates that do not point to a document', () => {
+    expect(() => new AdminCollectionGroupQueryBuilder<PostData>(mockFirestore, 'posts', 'users'))
+      .toThrow("Parent path 'users' must point to a document, e.g. 'users/{userId}'");
+  });
+
+  it('should return results with their IDs, references, metadata and parent IDs', async () => {
+    const docs = [mockDoc('users/u1/posts/p1'), mockDoc('users/u2/posts/p2')];
+    mockCollectionGroup.get.mockResolvedValue({ docs });
+    const builder = new AdminCollectionGroupQueryBuilder<PostData, 'users/{userId}'>(mockFirestore, 'posts', 'users/{userId}');
+
+    const results = await builder.getWithParentIds();
+
+    expect(results).toEqual([
+      { id: 'p1', ref: docs[0].ref, data: { title: 'Title of users/u1/posts/p1' }, ...times, parentIds: { userId: 'u1' } },
+      { id: 'p2', ref: docs[1].ref, data: { title: 'Title of users/u2/posts/p2' }, ...times, parentIds: { userId: 'u2' } },
+    ]);
+  });
+
+  it('should identify the collection group by its path template when serialized', () => {
+    const builder = new AdminCollectionGroupQueryBuilder<PostData>(mockFirestore, 'posts', 'users/{userId}');
+
+    expect(builder.toJSON().path).toBe('users/{userId}/posts');
+    expect(() => builder.fromJSON({ v: 1, path: 'users/u1/posts', constraints: [] }))
+      .toThrow("Serialized query targets 'users/u1/posts', not 'users/{userId}/posts'.");
+  });
+
+  it('should only resume from page tokens of documents matching the parent path', () => {
+    mockFirestore.doc = jest.fn((path: string) => ({ path }));
+    mockCollectionGroup.startAfter = jest.fn(() => mockCollectionGroup);
+    const builder = new AdminCollectionGroupQueryBuilder<PostData, 'users/{userId}'>(mockFirestore, 'posts', 'users/{userId}')
+      .orderBy('title');
+    const snapshotAt = (path: string) => ({ ref: { path }, get: () => 'Title' }) as any;
+    const tokenFor = (path: string) => builder.createPageToken(snapshotAt(path), { secret: 'k' });
+
+    expect(() => builder.startAfterPageToken(tokenFor('users/u1/posts/p1'), { secret: 'k' })).not.toThrow();
+    for (const path of ['teams/t1/posts/p1', 'users/u1/comments/c1', 'users/u1/posts', 'users//posts/p1']) {
+      expect(() => builder.startAfterPageToken(tokenFor(path), { secret: 'k' })).toThrow('Page token was created for a different query.');
+    }
+  });
+});
@@ -0,0 +1,106 @@
+import { createSchemaConverter, timestampDateCodec, referenceIdCodec } from '../converter';
+import type { CollectionSchema, FieldCodec } from '../index';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+
+// --- Mocks ---
+
+const mockDoc = jest.fn((id: string) => ({ id, path: `users/${id}` }));
+const mockFirestore = { collection: jest.fn(() => ({ doc: mockDoc })) } as any;
+
+// Custom codec storing cents as an integer
+const centsCodec: FieldCodec<number, number> = {
+  toFirestore: (value) => Math.round(value * 100),
+  fromFirestore: (value) => value / 100,
+};
+
+const schema: CollectionSchema = {
+  fields: {
+    createdAt: { type: 'timestamp', codec: timestampDateCodec },
+    owner: { type: 'reference', codec: referenceIdCodec('users') },
+    price: { type: 'number', codec: centsCodec },
+    name: { type: 'string' },
+    balances: { type: 'map', values: { type: 'number', codec: centsCodec } },
+    history: {
+      type: 'array',
+      items: { type: 'map', fields: { at: { type: 'timestamp', codec: timestampDateCodec } } },
+    },
+  },
+};
+
+const mockSnapshot = (data: any) => ({ data: () => data }) as any;
+
+// --- Test Suite ---
+
+describe('createSchemaConverter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should encode codec fields, including nested array items, on write', () => {
+    const converter = createSchemaConverter<any>(schema, mockFirestore);
+    const date = new Date('2024-01-02T03:04:05.000Z');
+
+    const stored = converter.toFirestore({
+      createdAt: date,
+      owner: 'u1',
+      price: 12.34,
+      name: 'Plain',
+      history: [{ at: date }],
+      unknownField: 'kept',
+    });
+
+    expect(stored.createdAt).toEqual(Timestamp.fromDate(date));
+    expect(mockFirestore.collection).toHaveBeenCalledWith('users');
+    expect(stored.owner).toEqual({ id: 'u1', path: 'users/u1' });
+    expect(stored.price).toBe(1234);
+    expect(stored.name).toBe('Plain');
+    expect((stored.history as any)[0].at).toEqual(Timestamp.fromDate(date));
+    expect(stored.unknownField).toBe('kept');
+  });
+
+  it('should decode codec fields on read', () => {
+    const converter = createSchemaConverter<any>(schema, mockFirestore);
+    const timestamp = Timestamp.fromMillis(1000);
+
+    const data = converter.fromFirestore(mockSnapshot({
+      createdAt: timestamp,
+      owner: { id: 'u2', path: 'users/u2' },
+      price: 500,
+      history: [{ at: timestamp }],
+    }));
+
+    expect(data).toEqual({
+      createdAt: new Date(1000),
+      owner: 'u2',
+      price: 5,
+      history: [{ at: new Date(1000) }],
+    });
+  });
+
+  it('should apply the value definition to every entry of a dynamic map', () => {
+    const converter = createSchemaConverter<any>(schema, mockFirestore);
+
+    const stored = converter.toFirestore({ balances: { eur: 1.5, 'usd.x': 2 } });
+
+    expect(stored.balances).toEqual({ eur: 150, 'usd.x': 200 });
+    expect(converter.fromFirestore(mockSnapshot(stored)).balances).toEqual({ eur: 1.5, 'usd.x': 2 });
+  });
+
+  it('should pass null values and FieldValue sentinels through untouched', () => {
+    const converter = createSchemaConverter<any>(schema, mockFirestore);
+    const sentinel = FieldValue.serverTimestamp();
+
+    const stored = converter.toFirestore({ createdAt: sentinel, owner: null });
+
+    expect(stored.createdAt).toBe(sentinel);
+    expect(stored.owner).toBeNull();
+  });
+
+  it('should only encode the keys present in partial (merge) writes', () => {
+    const converter = createSchemaConverter<any>(schema, mockFirestore);
+
+    const stored = converter.toFirestore({ price: 1 }, { merge: true });
+
+    expect(stored).toEqual({ price: 100 });
+  });
+});
@@ -0,0 +1,65 @@
+import { parseFieldPath, formatFieldPath, toFieldPathSegments, isPlainFieldPath, toUpdateArguments } from '../fieldPath';
+import { FieldPath } from 'firebase-admin/firestore';
+
+// --- Test Suite ---
+
+describe('parseFieldPath', () => {
+  it('should split dotted paths into segments', () => {
+    expect(parseFieldPath('name')).toEqual(['name']);
+    expect(parseFieldPath('address.city')).toEqual(['address', 'city']);
+    expect(parseFieldPath('user-name.1st')).toEqual(['user-name', '1st']);
+  });
+
+  it('should unquote backtick-escaped segments', () => {
+    expect(parseFieldPath('prefs.`theme.dark`')).toEqual(['prefs', 'theme.dark']);
+    expect(parseFieldPath('`a\\`b`.`c\\\\d`')).toEqual(['a`b', 'c\\d']);
+    expect(parseFieldPath('``')).toEqual(['']);
+  });
+
+  it('should reject empty segments, reserved characters and bad quoting', () => {
+    expect(() => parseFieldPath('a..b')).toThrow("Invalid field path 'a..b': empty segment");
+    expect(() => parseFieldPath('')).toThrow("Invalid field path '': empty segment");
+    expect(() => parseFieldPath('tags[0]')).toThrow("Invalid field path 'tags[0]': quote segments containing '[' in backticks");
+    expect(() => parseFieldPath('`open')).toThrow("Invalid field path '`open': unterminated backtick");
+    expect(() => parseFieldPath('`a`b')).toThrow("Invalid field path '`a`b': unexpected 'b' after a quoted segment");
+  });
+});
+
+describe('formatFieldPath', () => {
+  it('should quote segments that are not plain identifiers', () => {
+    expect(formatFieldPath(['address', 'city'])).toBe('address.city');
+    expect(formatFieldPath(['settings', 'notifications', 'email.work'])).toBe('settings.notifications.`email.work`');
+    expect(formatFieldPath(['a`b', 'c\\d'])).toBe('`a\\`b`.`c\\\\d`');
+  });
+
+  it('should round-trip through parseFieldPath', () => {
+    const segments = ['settings', 'channel/42', 'x.y', 'back`tick'];
+    expect(parseFieldPath(formatFieldPath(segments))).toEqual(segments);
+  });
+});
+
+describe('toFieldPathSegments', () => {
+  it('should accept strings, FieldPaths and raw segments', () => {
+    expect(toFieldPathSegments('a.`b.c`')).toEqual(['a', 'b.c']);
+    expect(toFieldPathSegments(new FieldPath('a', 'b.c'))).toEqual(['a', 'b.c']);
+    expect(toFieldPathSegments(['a', 'b.c'])).toEqual(['a', 'b.c']);
+  });
+
+  it('should reject empty segment lists and empty segments', () => {
+    expect(() => toFieldPathSegments([])).toThrow('Invalid field path []: segments must be non-empty strings');
+    expect(() => toFieldPathSegments(['a', ''])).toThrow('Invalid field path ["a", ""]: segments must be non-empty strings');
+  });
+});
+
+describe('isPlainFieldPath / toUpdateArguments', () => {
+  it('should detect paths that need quoting', () => {
+    expect(isPlainFieldPath('address.city')).toBe(true);
+    expect(isPlainFieldPath('settings.`email.work`')).toBe(false);
+  });
+
+  it('should flatten field/value pairs for the variadic update form', () => {
+    const a = new FieldPath('a');
+    const b = new FieldPath('b.c');
+    expect(toUpdateArguments([[a, 1], [b, 2]])).toEqual([a, 1, b, 2]);
+  });
+});
@@ -0,0 +1,54 @@
+import { encodePageToken, decodePageToken, PageTokenError } from '../pageToken';
+import type { PageTokenPayload } from '../pageToken';
+
+const payload: PageTokenPayload = { v: 1, q: 'shape-hash', c: ['Alice', 42], p: 'users/u1' };
+
+/** Replaces the payload part of a token while keeping its signature. */
+const withPayload = (token: string, newPayload: unknown) =>
+  `${Buffer.from(JSON.stringify(newPayload)).toString('base64url')}.${token.split('.')[1]}`;
+
+describe('page tokens', () => {
+  it('should require a secret unless unsigned tokens are explicitly allowed', () => {
+    const message = 'Page tokens must be signed: pass a secret, or `unsigned: true` for tokens that only detect corruption.';
+    expect(() => encodePageToken(payload, {})).toThrow(message);
+    expect(() => decodePageToken(encodePageToken(payload, { unsigned: true }), {})).toThrow(message);
+  });
+
+  it('should round-trip an unsigned payload', () => {
+    const token = encodePageToken(payload, { unsigned: true });
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+    expect(decodePageToken(token, { unsigned: true })).toEqual(payload);
+  });
+
+  it('should round-trip a payload signed with a secret', () => {
+    const token = encodePageToken(payload, { secret: 's3cret' });
+
+    expect(decodePageToken(token, { secret: 's3cret' })).toEqual(payload);
+  });
+
+  it('should reject tokens signed with another secret or none', () => {
+    const token = encodePageToken(payload, { secret: 's3cret' });
+
+    expect(() => decodePageToken(token, { secret: 'other' })).toThrow('Page token signature does not match.');
+    expect(() => decodePageToken(token, { unsigned: true })).toThrow(PageTokenError);
+  });
+
+  it('should reject edited payloads', () => {
+    const token = encodePageToken(payload, { secret: 's3cret' });
+    const tampered = withPayload(token, { ...payload, c: ['Zed', 42] });
+
+    expect(() => decodePageToken(tampered, { secret: 's3cret' })).toThrow('Page token signature does not match.');
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(() => decodePageToken('not-a-token', { secret: 's3cret' })).toThrow('Malformed page token.');
+    expect(() => decodePageToken('a.b.c', { secret: 's3cret' })).toThrow('Malformed page token.');
+  });
+
+  it('should reject validly signed payloads of an unknown format', () => {
+    const token = encodePageToken({ v: 2 } as any, { secret: 's3cret' });
+
+    expect(() => decodePageToken(token, { secret: 's3cret' })).toThrow('Unsupported page token format.');
+  });
+});
@@ -0,0 +1,44 @@
+import { AdminConflictError, toPrecondition, isFailedPreconditionError, withConflictDetection } from '../precondition';
+import { Timestamp } from 'firebase-admin/firestore';
+
+// --- Test Suite ---
+
+const lastUpdateTime = Timestamp.fromDate(new Date('2024-05-01T10:00:00.000Z'));
+const failedPrecondition = Object.assign(new Error('9 FAILED_PRECONDITION: the stored version does not match'), { code: 9 });
+
+describe('toPrecondition', () => {
+  it('should only build a precondition when lastUpdateTime is set', () => {
+    expect(toPrecondition({ lastUpdateTime })).toEqual({ lastUpdateTime });
+    expect(toPrecondition({})).toBeUndefined();
+    expect(toPrecondition()).toBeUndefined();
+  });
+});
+
+describe('isFailedPreconditionError', () => {
+  it('should detect the FAILED_PRECONDITION status code', () => {
+    expect(isFailedPreconditionError(failedPrecondition)).toBe(true);
+    expect(isFailedPreconditionError(Object.assign(new Error('not found'), { code: 5 }))).toBe(false);
+    expect(isFailedPreconditionError(null)).toBe(false);
+  });
+});
+
+describe('withConflictDetection', () => {
+  it('should resolve with the write result', async () => {
+    await expect(withConflictDetection(Promise.resolve('ok'), 'users/u1', { lastUpdateTime })).resolves.toBe('ok');
+  });
+
+  it('should turn a failed precondition into an AdminConflictError', async () => {
+    const error = await withConflictDetection(Promise.reject(failedPrecondition), 'users/u1', { lastUpdateTime })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(AdminConflictError);
+    expect(error).toMatchObject({ name: 'AdminConflictError', path: 'users/u1', lastUpdateTime, cause: failedPrecondition });
+    expect(error.message).toBe("Document 'users/u1' was modified after 2024-05-01T10:00:00.000Z; read it again and retry.");
+  });
+
+  it('should rethrow other errors, and failed preconditions it did not set, unchanged', async () => {
+    const other = new Error('boom');
+    await expect(withConflictDetection(Promise.reject(other), 'users/u1', { lastUpdateTime })).rejects.toBe(other);
+    await expect(withConflictDetection(Promise.reject(failedPrecondition), 'users/u1', undefined)).rejects.toBe(failedPrecondition);
+  });
+});
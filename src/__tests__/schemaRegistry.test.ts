@@ -0,0 +1,94 @@
+import { AdminSchemaRegistry } from '../schemaRegistry';
+import { AdminBaseCollectionRef } from '../baseCollection';
+import type { CollectionSchema } from '../baseCollection';
+
+// --- Mocks ---
+
+// Path-based collection/document references, enough for collection construction
+const mockCollectionRef = (path: string): any => ({
+  id: path.split('/').pop(),
+  path,
+  doc: (id: string) => mockDocRef(`${path}/${id}`),
+});
+const mockDocRef = (path: string): any => ({
+  id: path.split('/').pop(),
+  path,
+  collection: (id: string) => mockCollectionRef(`${path}/${id}`),
+});
+const mockFirestore = { collection: (id: string) => mockCollectionRef(id) } as any;
+
+// Shaped like generated root classes, which hard-code their collection ID
+class UsersCollection extends AdminBaseCollectionRef<any, any> {
+  constructor(firestore: any, schema?: CollectionSchema) {
+    super(firestore, 'users', schema);
+  }
+}
+class OrdersCollection extends AdminBaseCollectionRef<any, any> {}
+class ItemsCollection extends AdminBaseCollectionRef<any, any> {}
+
+const itemsSchema: CollectionSchema = { fields: { sku: { type: 'string' } } };
+const ordersSchema: CollectionSchema = {
+  fields: { total: { type: 'number' } },
+  subCollections: { items: { schema: itemsSchema, collectionClass: ItemsCollection } },
+};
+const usersSchema: CollectionSchema = {
+  fields: { name: { type: 'string' } },
+  subCollections: { orders: { schema: ordersSchema, collectionClass: OrdersCollection } },
+};
+
+// --- Test Suite ---
+
+describe('AdminSchemaRegistry', () => {
+  const registry = new AdminSchemaRegistry(mockFirestore, {
+    users: { schema: usersSchema, create: (firestore) => new UsersCollection(firestore, usersSchema) },
+  });
+
+  it('should resolve a nested document path to its collection class and parent IDs', () => {
+    const resolved = registry.resolve<ItemsCollection>('users/u1/orders/o9/items/i3');
+
+    expect(resolved.collection).toBeInstanceOf(ItemsCollection);
+    expect((resolved.collection as any).schema).toBe(itemsSchema);
+    expect(resolved.collectionPath).toBe('users/u1/orders/o9/items');
+    expect(resolved.documentId).toBe('i3');
+    expect(resolved.parentIds).toEqual({ users: 'u1', orders: 'o9' });
+  });
+
+  it('should resolve collection paths, root paths and full resource names', () => {
+    const orders = registry.resolve('users/u1/orders');
+    expect(orders.collection).toBeInstanceOf(OrdersCollection);
+    expect(orders.documentId).toBeUndefined();
+    expect(orders.parentIds).toEqual({ users: 'u1' });
+
+    const user = registry.resolve('projects/demo/databases/(default)/documents/users/u1');
+    expect(user.collection).toBeInstanceOf(UsersCollection);
+    expect(user.collectionPath).toBe('users');
+    expect(user.documentId).toBe('u1');
+    expect(user.parentIds).toEqual({});
+  });
+
+  it('should reject paths that do not match the schema tree', () => {
+    expect(() => registry.resolve('accounts/a1'))
+      .toThrow("Path 'accounts/a1' does not match the schema: unknown root collection 'accounts'");
+    expect(() => registry.resolve('users/u1/items/i3'))
+      .toThrow("Path 'users/u1/items/i3' does not match the schema: 'items' is not a sub-collection of 'users'");
+    expect(() => registry.resolve('users//orders')).toThrow("Invalid Firestore path 'users//orders'");
+  });
+
+  it('should reject a root factory that creates a different collection', () => {
+    const misregistered = new AdminSchemaRegistry(mockFirestore, {
+      accounts: { schema: usersSchema, create: (firestore) => new UsersCollection(firestore, usersSchema) },
+    });
+
+    expect(() => misregistered.resolve('accounts/a1'))
+      .toThrow("Root collection 'accounts' was registered with a factory that creates collection 'users'");
+  });
+
+  it('should check the path kind in resolveDocument() and resolveCollection()', () => {
+    expect(registry.resolveDocument('users/u1/orders/o9').documentId).toBe('o9');
+    expect(() => registry.resolveDocument('users/u1/orders'))
+      .toThrow("Path 'users/u1/orders' points to a collection, not a document");
+    expect(registry.resolveCollection('users').collection).toBeInstanceOf(UsersCollection);
+    expect(() => registry.resolveCollection('users/u1'))
+      .toThrow("Path 'users/u1' points to a document, not a collection");
+  });
+});
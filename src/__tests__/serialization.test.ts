@@ -0,0 +1,69 @@
+import { encodeValue, decodeValue, stableStringify, stableHash } from '../serialization';
+import { FieldPath, GeoPoint, Timestamp } from 'firebase-admin/firestore';
+
+// --- Mocks ---
+
+const mockFirestore = { doc: jest.fn((path: string) => ({ path, collection: jest.fn() })) } as any;
+
+// --- Test Suite ---
+
+describe('encodeValue / decodeValue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should keep JSON primitives as they are', () => {
+    expect(encodeValue(null)).toBeNull();
+    expect(encodeValue(true)).toBe(true);
+    expect(encodeValue(42)).toBe(42);
+    expect(encodeValue('text')).toBe('text');
+  });
+
+  it('should tag Firestore value types and round-trip them', () => {
+    const timestamp = new Timestamp(123, 456);
+    const geoPoint = new GeoPoint(1.5, -2.5);
+    const fieldPath = new FieldPath('a.b', 'c');
+    const date = new Date('2024-01-01T00:00:00.000Z');
+    const reference = { path: 'users/u1', collection: jest.fn() };
+
+    const encoded = encodeValue({ timestamp, geoPoint, fieldPath, date, reference, list: [1, NaN] });
+
+    expect(encoded).toEqual({
+      __type: 'map',
+      value: {
+        timestamp: { __type: 'timestamp', seconds: 123, nanoseconds: 456 },
+        geoPoint: { __type: 'geopoint', latitude: 1.5, longitude: -2.5 },
+        fieldPath: { __type: 'fieldPath', segments: ['a.b', 'c'] },
+        date: { __type: 'date', iso: '2024-01-01T00:00:00.000Z' },
+        reference: { __type: 'reference', path: 'users/u1' },
+        list: [1, { __type: 'number', value: 'NaN' }],
+      },
+    });
+
+    const decoded = decodeValue(JSON.parse(JSON.stringify(encoded)), mockFirestore);
+    expect(decoded.timestamp.isEqual(timestamp)).toBe(true);
+    expect(decoded.geoPoint.isEqual(geoPoint)).toBe(true);
+    expect(decoded.fieldPath.isEqual(fieldPath)).toBe(true);
+    expect(decoded.date).toEqual(date);
+    expect(mockFirestore.doc).toHaveBeenCalledWith('users/u1');
+    expect(decoded.list[1]).toBeNaN();
+  });
+
+  it('should reject values it cannot represent', () => {
+    class Custom {}
+    expect(() => encodeValue(new Custom())).toThrow('Cannot serialize value of type Custom');
+    expect(() => encodeValue(undefined)).toThrow('Cannot serialize value of type undefined');
+  });
+});
+
+describe('stableStringify / stableHash', () => {
+  it('should not depend on key order', () => {
+    expect(stableStringify({ b: 1, a: { d: [1, 2], c: null } })).toBe('{"a":{"c":null,"d":[1,2]},"b":1}');
+    expect(stableHash({ a: 1, b: 2 })).toBe(stableHash({ b: 2, a: 1 }));
+    expect(stableHash({ a: 1 })).not.toBe(stableHash({ a: 2 }));
+  });
+
+  it('should skip undefined properties', () => {
+    expect(stableStringify({ a: 1, b: undefined })).toBe('{"a":1}');
+  });
+});
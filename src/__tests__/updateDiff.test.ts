@@ -0,0 +1,95 @@
+import { diffDocumentData, isEqualValue } from '../updateDiff';
+import { GeoPoint, Timestamp } from 'firebase-admin/firestore';
+
+// --- Test Suite ---
+
+describe('isEqualValue', () => {
+  it('should compare maps and arrays deeply', () => {
+    expect(isEqualValue({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(isEqualValue({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false);
+    expect(isEqualValue({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+    expect(isEqualValue([1, 2], [2, 1])).toBe(false);
+  });
+
+  it('should compare Dates and Firestore values by value', () => {
+    expect(isEqualValue(new Date(1000), new Date(1000))).toBe(true);
+    expect(isEqualValue(Timestamp.fromMillis(1000), Timestamp.fromMillis(1000))).toBe(true);
+    expect(isEqualValue(Timestamp.fromMillis(1000), Timestamp.fromMillis(2000))).toBe(false);
+    expect(isEqualValue(new GeoPoint(1, 2), new GeoPoint(1, 2))).toBe(true);
+    expect(isEqualValue(Timestamp.fromMillis(1000), new Date(1000))).toBe(false);
+  });
+
+  it('should compare bytes by content', () => {
+    expect(isEqualValue(Buffer.from('ab'), Buffer.from('ab'))).toBe(true);
+    expect(isEqualValue(Buffer.from('ab'), new Uint8Array([97, 98]))).toBe(true);
+    expect(isEqualValue(Buffer.from('ab'), Buffer.from('ac'))).toBe(false);
+    expect(isEqualValue(Buffer.from('ab'), { 0: 97, 1: 98 })).toBe(false);
+  });
+});
+
+describe('diffDocumentData', () => {
+  it('should emit no changes for equal documents', () => {
+    const doc = { name: 'A', createdAt: Timestamp.fromMillis(1), profile: { tags: ['x'] } };
+    expect(diffDocumentData(doc, { ...doc, createdAt: Timestamp.fromMillis(1), profile: { tags: ['x'] } })).toEqual([]);
+  });
+
+  it('should set changed fields at their deepest path and delete removed fields', () => {
+    const before = { name: 'A', profile: { bio: 'old', age: 30, links: { web: 'a.com' } }, legacy: true, note: 'n' };
+    const after = { name: 'A', profile: { bio: 'new', age: 30, links: {}, city: 'Oslo' }, note: undefined, extra: 1 };
+
+    expect(diffDocumentData(before, after)).toEqual([
+      { type: 'set', path: ['profile', 'bio'], value: 'new' },
+      { type: 'delete', path: ['profile', 'links', 'web'] },
+      { type: 'set', path: ['profile', 'city'], value: 'Oslo' },
+      { type: 'set', path: ['extra'], value: 1 },
+      { type: 'delete', path: ['legacy'] },
+      { type: 'delete', path: ['note'] },
+    ]);
+  });
+
+  it('should replace values whose type changed, and keep keys containing dots as one segment', () => {
+    expect(diffDocumentData({ a: 1, b: { c: 1 }, 'x.y': 1 }, { a: { c: 1 }, b: 2, 'x.y': 2 })).toEqual([
+      { type: 'set', path: ['a'], value: { c: 1 } },
+      { type: 'set', path: ['b'], value: 2 },
+      { type: 'set', path: ['x.y'], value: 2 },
+    ]);
+  });
+
+  it('should replace changed bytes whole instead of diffing them byte by byte', () => {
+    expect(diffDocumentData({ blob: Buffer.from('ab') }, { blob: Buffer.from('ac') })).toEqual([
+      { type: 'set', path: ['blob'], value: Buffer.from('ac') },
+    ]);
+    expect(diffDocumentData({ blob: Buffer.from('abc') }, { blob: Buffer.from('a') })).toEqual([
+      { type: 'set', path: ['blob'], value: Buffer.from('a') },
+    ]);
+    expect(diffDocumentData({ blob: Buffer.from('ab') }, { blob: Buffer.from('ab') })).toEqual([]);
+  });
+
+  it('should replace changed arrays whole unless arrayOperations is enabled', () => {
+    expect(diffDocumentData({ tags: ['a'] }, { tags: ['a', 'b'] })).toEqual([{ type: 'set', path: ['tags'], value: ['a', 'b'] }]);
+  });
+
+  it('should use arrayUnion for pure additions and arrayRemove for pure removals', () => {
+    const before = { added: ['a', 'b'], removed: ['a', 'b', 'a', 'c'], nested: { ids: [1] } };
+    const after = { added: ['a', 'b', 'c', 'd'], removed: ['b', 'c'], nested: { ids: [] } };
+
+    expect(diffDocumentData(before, after, { arrayOperations: true })).toEqual([
+      { type: 'arrayUnion', path: ['added'], values: ['c', 'd'] },
+      { type: 'arrayRemove', path: ['removed'], values: ['a'] },
+      { type: 'arrayRemove', path: ['nested', 'ids'], values: [1] },
+    ]);
+  });
+
+  it('should replace arrays whose change a single array operation cannot express', () => {
+    const cases = [
+      { before: ['a', 'b'], after: ['b', 'a'] }, // Reordered
+      { before: ['a'], after: ['a', 'a'] }, // arrayUnion does not add duplicates
+      { before: ['a', 'b'], after: ['a', 'c'] }, // Both added and removed
+      { before: ['a', 'a'], after: ['a'] }, // arrayRemove removes every occurrence
+    ];
+    for (const { before, after } of cases) {
+      expect(diffDocumentData({ tags: before }, { tags: after }, { arrayOperations: true }))
+        .toEqual([{ type: 'set', path: ['tags'], value: after }]);
+    }
+  });
+});
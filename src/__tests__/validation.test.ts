@@ -0,0 +1,179 @@
+import {
+  validateDocumentData,
+  validateFieldUpdate,
+  resolveFieldSchema,
+  isFieldValueSentinel,
+  SchemaValidationError,
+} from '../validation';
+import type { FieldSchema } from '../baseCollection';
+import { FieldValue, Timestamp, GeoPoint } from 'firebase-admin/firestore';
+
+// --- Test Schema ---
+
+const fields: Record<string, FieldSchema> = {
+  name: { type: 'string', required: true, min: 2, max: 20, pattern: '^[A-Z]' },
+  age: { type: 'number', min: 0, max: 150 },
+  status: { type: 'string', enum: ['active', 'inactive'] },
+  verified: { type: 'boolean' },
+  createdAt: { type: 'timestamp' },
+  location: { type: 'geopoint' },
+  owner: { type: 'reference' },
+  nickname: { type: 'string', nullable: true },
+  address: {
+    type: 'map',
+    fields: {
+      city: { type: 'string', required: true },
+      zip: { type: 'string', pattern: /^\d{5}$/ },
+    },
+  },
+  tags: { type: 'array', max: 3, items: { type: 'string', min: 1 } },
+  scores: { type: 'map', values: { type: 'number', min: 0 } }, // Dynamic keys
+  extra: {}, // No rules
+};
+
+/** Runs the validator and returns the thrown issues (or an empty array). */
+const collectIssues = (run: () => void) => {
+  try {
+    run();
+    return [];
+  } catch (error) {
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    return (error as SchemaValidationError).issues;
+  }
+};
+
+// --- Test Suite ---
+
+describe('validateDocumentData', () => {
+  it('should accept valid data including Firestore value types and sentinels', () => {
+    expect(() => validateDocumentData(fields, {
+      name: 'Alice',
+      age: 30,
+      status: 'active',
+      verified: true,
+      createdAt: Timestamp.now(),
+      location: new GeoPoint(1, 2),
+      owner: { path: 'users/u1', collection: () => undefined },
+      nickname: null,
+      address: { city: 'Paris', zip: '75001' },
+      tags: ['a', 'b'],
+      extra: { anything: [1, 'two'] },
+    })).not.toThrow();
+
+    expect(() => validateDocumentData(fields, {
+      name: 'Bob',
+      age: FieldValue.increment(1),
+      createdAt: FieldValue.serverTimestamp(),
+    })).not.toThrow();
+  });
+
+  it('should accept a Date for timestamp fields', () => {
+    expect(() => validateDocumentData(fields, { name: 'Carl', createdAt: new Date() })).not.toThrow();
+  });
+
+  it('should report every offending field path in one error', () => {
+    const issues = collectIssues(() => validateDocumentData(fields, {
+      age: '30',
+      status: 'deleted',
+      verified: null,
+      address: { zip: '123' },
+      tags: ['ok', '', 'x', 'y'],
+    }));
+
+    expect(issues).toEqual([
+      { path: 'name', rule: 'required', message: 'required field is missing' },
+      { path: 'age', rule: 'type', message: 'expected number, got string' },
+      { path: 'status', rule: 'enum', message: 'expected one of "active", "inactive", got "deleted"' },
+      { path: 'verified', rule: 'type', message: 'expected boolean, got null' },
+      { path: 'address.city', rule: 'required', message: 'required field is missing' },
+      { path: 'address.zip', rule: 'pattern', message: 'does not match pattern /^\\d{5}$/' },
+      { path: 'tags', rule: 'max', message: 'must be at most 3 in length, got 4' },
+      { path: 'tags[1]', rule: 'min', message: 'must be at least 1 in length, got 0' },
+    ]);
+  });
+
+  it('should include the offending paths in the error message', () => {
+    expect(() => validateDocumentData(fields, { name: 'x' }))
+      .toThrow(/Schema validation failed:\n {2}- name: must be at least 2 in length, got 1\n {2}- name: does not match pattern/);
+  });
+
+  it('should check numeric bounds by value', () => {
+    const issues = collectIssues(() => validateDocumentData(fields, { name: 'Dan', age: -1 }));
+    expect(issues).toEqual([{ path: 'age', rule: 'min', message: 'must be at least 0, got -1' }]);
+  });
+
+  it('should not accept bytes or class instances as maps', () => {
+    const issues = collectIssues(() => validateDocumentData(fields, { name: 'Eve', address: Buffer.from('ab'), scores: new Map() }));
+    expect(issues).toEqual([
+      { path: 'address', rule: 'type', message: 'expected map, got object' },
+      { path: 'scores', rule: 'type', message: 'expected map, got object' },
+    ]);
+  });
+
+  it('should not require missing fields in partial mode', () => {
+    expect(() => validateDocumentData(fields, { age: 10 }, { partial: true })).not.toThrow();
+    expect(() => validateDocumentData(fields, { age: 'ten' }, { partial: true })).toThrow(SchemaValidationError);
+  });
+
+  it('should not require missing nested fields in partial mode, except below mergeFields paths', () => {
+    expect(() => validateDocumentData(fields, { address: { zip: '12345' } }, { partial: true })).not.toThrow();
+    expect(() => validateDocumentData(fields, { address: { zip: '123' } }, { partial: true })).toThrow('address.zip: does not match pattern');
+    expect(() => validateDocumentData(fields, { address: { zip: '12345' } }, { partial: true, mergeFields: [['address', 'zip']] })).not.toThrow();
+
+    const issues = collectIssues(() => validateDocumentData(fields, { address: { zip: '12345' } }, { partial: true, mergeFields: [['address']] }));
+    expect(issues).toEqual([{ path: 'address.city', rule: 'required', message: 'required field is missing' }]);
+  });
+});
+
+describe('validateFieldUpdate', () => {
+  it('should validate a dotted path against the nested field definition', () => {
+    expect(() => validateFieldUpdate(fields, 'address.zip', '12345')).not.toThrow();
+    const issues = collectIssues(() => validateFieldUpdate(fields, 'address.zip', 12345));
+    expect(issues).toEqual([{ path: 'address.zip', rule: 'type', message: 'expected string, got number' }]);
+  });
+
+  it('should ignore paths that are not described by the schema', () => {
+    expect(() => validateFieldUpdate(fields, 'unknown.path', 1)).not.toThrow();
+    expect(() => validateFieldUpdate(fields, 'extra.deep', 1)).not.toThrow();
+  });
+
+  it('should reject deleting a required field but allow deleting optional ones', () => {
+    const issues = collectIssues(() => validateFieldUpdate(fields, 'name', FieldValue.delete()));
+    expect(issues).toEqual([{ path: 'name', rule: 'required', message: 'required field cannot be deleted' }]);
+    expect(() => validateFieldUpdate(fields, 'age', FieldValue.delete())).not.toThrow();
+  });
+});
+
+describe('resolveFieldSchema', () => {
+  it('should walk nested map fields', () => {
+    expect(resolveFieldSchema(fields, 'address.city')).toBe((fields.address.fields as any).city);
+    expect(resolveFieldSchema(fields, 'address.missing')).toBeUndefined();
+  });
+
+  it('should resolve dynamic map keys, given as segments, to the value definition', () => {
+    expect(resolveFieldSchema(fields, ['scores', 'level.1'])).toBe(fields.scores.values);
+  });
+});
+
+describe('dynamic map values', () => {
+  it('should validate every entry of a map against its value definition', () => {
+    const issues = collectIssues(() => validateDocumentData(fields, { name: 'Ann', scores: { a: 1, 'b.c': -1 } }));
+    expect(issues).toEqual([{ path: 'scores.`b.c`', rule: 'min', message: 'must be at least 0, got -1' }]);
+  });
+
+  it('should validate single entry updates', () => {
+    const issues = collectIssues(() => validateFieldUpdate(fields, ['scores', 'x'], 'high'));
+    expect(issues).toEqual([{ path: 'scores.x', rule: 'type', message: 'expected number, got string' }]);
+  });
+});
+
+describe('isFieldValueSentinel', () => {
+  it('should recognise sentinels but not other Firestore values', () => {
+    expect(isFieldValueSentinel(FieldValue.serverTimestamp())).toBe(true);
+    expect(isFieldValueSentinel(FieldValue.arrayUnion(1))).toBe(true);
+    expect(isFieldValueSentinel(Timestamp.now())).toBe(false);
+    expect(isFieldValueSentinel(new GeoPoint(0, 0))).toBe(false);
+    expect(isFieldValueSentinel({ a: 1 })).toBe(false);
+    expect(isFieldValueSentinel(null)).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+import { AdminWriteBatch, MAX_BATCH_OPERATIONS } from '../writeBatch';
+import { FieldPath } from 'firebase-admin/firestore';
+import type { WriteResult, Timestamp } from 'firebase-admin/firestore';
+
+// --- Mocks ---
+
+const mockWriteResult = { writeTime: { seconds: 1, nanoseconds: 1 } as Timestamp } as WriteResult;
+
+// Each call to firestore.batch() returns a fresh mock WriteBatch so chunks can be inspected
+let mockWriteBatches: any[];
+const createMockWriteBatch = () => {
+  const writeBatch: any = {
+    operations: [] as any[],
+    create: jest.fn((ref, data) => { writeBatch.operations.push(['create', ref.path, data]); return writeBatch; }),
+    set: jest.fn((ref, data, options) => { writeBatch.operations.push(['set', ref.path, data, options]); return writeBatch; }),
+    update: jest.fn((ref, ...data) => { writeBatch.operations.push(['update', ref.path, ...data]); return writeBatch; }),
+    delete: jest.fn((ref, ...precondition) => { writeBatch.operations.push(['delete', ref.path, ...precondition]); return writeBatch; }),
+    commit: jest.fn(() => Promise.resolve(writeBatch.operations.map(() => mockWriteResult))),
+  };
+  mockWriteBatches.push(writeBatch);
+  return writeBatch;
+};
+
+const mockFirestore = { batch: jest.fn() } as any;
+const mockDocRef = (id: string) => ({ id, path: `items/${id}` }) as any;
+
+// --- Test Suite ---
+
+describe('AdminWriteBatch', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockWriteBatches = [];
+    mockFirestore.batch.mockImplementation(createMockWriteBatch);
+  });
+
+  it('should reject an invalid maxOperationsPerBatch', () => {
+    expect(() => new AdminWriteBatch(mockFirestore, { maxOperationsPerBatch: 0 }))
+      .toThrow(`maxOperationsPerBatch must be an integer between 1 and ${MAX_BATCH_OPERATIONS}, got 0`);
+    expect(() => new AdminWriteBatch(mockFirestore, { maxOperationsPerBatch: 501 })).toThrow();
+  });
+
+  it('should queue operations without touching Firestore until commit', () => {
+    const batch = new AdminWriteBatch(mockFirestore)
+      .create(mockDocRef('a'), { name: 'A' })
+      .set(mockDocRef('b'), { name: 'B' })
+      .update(mockDocRef('c'), { 'nested.value': 1 })
+      .delete(mockDocRef('d'));
+
+    expect(batch.size).toBe(4);
+    expect(mockFirestore.batch).not.toHaveBeenCalled();
+  });
+
+  it('should commit all operations in a single WriteBatch under the limit', async () => {
+    const batch = new AdminWriteBatch(mockFirestore)
+      .create(mockDocRef('a'), { name: 'A' })
+      .set(mockDocRef('b'), { name: 'B' }, { merge: true })
+      .update(mockDocRef('c'), { count: 2 })
+      .delete(mockDocRef('d'));
+
+    const result = await batch.commit();
+
+    expect(mockFirestore.batch).toHaveBeenCalledTimes(1);
+    expect(mockWriteBatches[0].operations).toEqual([
+      ['create', 'items/a', { name: 'A' }],
+      ['set', 'items/b', { name: 'B' }, { merge: true }],
+      ['update', 'items/c', { count: 2 }],
+      ['delete', 'items/d'],
+    ]);
+    expect(result.succeededCount).toBe(4);
+    expect(result.failedCount).toBe(0);
+    expect(result.chunks).toEqual([{
+      index: 0,
+      operationCount: 4,
+      documentPaths: ['items/a', 'items/b', 'items/c', 'items/d'],
+      writeResults: [mockWriteResult, mockWriteResult, mockWriteResult, mockWriteResult],
+    }]);
+  });
+
+  it('should pass FieldPath/value pair updates in the variadic form', async () => {
+    const fieldPath = new FieldPath('settings', 'email.work');
+
+    await new AdminWriteBatch(mockFirestore).update(mockDocRef('a'), [[fieldPath, true]]).commit();
+
+    expect(mockWriteBatches[0].operations).toEqual([['update', 'items/a', fieldPath, true]]);
+  });
+
+  it('should pass preconditions on updates and deletes', async () => {
+    const precondition = { lastUpdateTime: { seconds: 5, nanoseconds: 0 } as Timestamp };
+    const fieldPath = new FieldPath('a.b');
+
+    await new AdminWriteBatch(mockFirestore)
+      .update(mockDocRef('a'), { count: 1 }, precondition)
+      .update(mockDocRef('b'), [[fieldPath, 2]], precondition)
+      .delete(mockDocRef('c'), precondition)
+      .commit();
+
+    expect(mockWriteBatches[0].operations).toEqual([
+      ['update', 'items/a', { count: 1 }, precondition],
+      ['update', 'items/b', fieldPath, 2, precondition],
+      ['delete', 'items/c', precondition],
+    ]);
+  });
+
+  it('should split into multiple WriteBatch commits past 500 operations', async () => {
+    const batch = new AdminWriteBatch(mockFirestore);
+    for (let i = 0; i < 1201; i++) {
+      batch.delete(mockDocRef(`doc-${i}`));
+    }
+
+    const result = await batch.commit();
+
+    expect(mockFirestore.batch).toHaveBeenCalledTimes(3);
+    expect(result.chunks.map(chunk => chunk.operationCount)).toEqual([500, 500, 201]);
+    expect(result.chunks[1].documentPaths[0]).toBe('items/doc-500');
+    expect(result.succeededCount).toBe(1201);
+  });
+
+  it('should report failed chunks and keep committing the remaining ones', async () => {
+    const commitError = new Error('DEADLINE_EXCEEDED');
+    mockFirestore.batch.mockImplementation(() => {
+      const writeBatch = createMockWriteBatch();
+      if (mockWriteBatches.length === 1) {
+        writeBatch.commit.mockRejectedValue(commitError);
+      }
+      return writeBatch;
+    });
+    const batch = new AdminWriteBatch(mockFirestore, { maxOperationsPerBatch: 2 });
+    ['a', 'b', 'c'].forEach(id => batch.set(mockDocRef(id), { name: id }));
+
+    const result = await batch.commit();
+
+    expect(result.chunks).toHaveLength(2);
+    expect(result.chunks[0].error).toBe(commitError);
+    expect(result.chunks[0].writeResults).toBeUndefined();
+    expect(result.chunks[1].writeResults).toEqual([mockWriteResult]);
+    expect(result.succeededCount).toBe(1);
+    expect(result.failedCount).toBe(2);
+  });
+
+  it('should resolve with no chunks when nothing was queued', async () => {
+    const result = await new AdminWriteBatch(mockFirestore).commit();
+
+    expect(mockFirestore.batch).not.toHaveBeenCalled();
+    expect(result).toEqual({ chunks: [], succeededCount: 0, failedCount: 0 });
+  });
+
+  it('should not allow reuse after commit', async () => {
+    const batch = new AdminWriteBatch(mockFirestore).delete(mockDocRef('a'));
+    await batch.commit();
+
+    expect(() => batch.delete(mockDocRef('b')))
+      .toThrow('Cannot add operations to a batch that has already been committed.');
+    await expect(batch.commit()).rejects.toThrow('Batch has already been committed.');
+  });
+});
@@ -8,15 +8,47 @@ import type {
   DocumentData,
   SetOptions, // Admin SDK has SetOptions type
   DocumentSnapshot,
+  Transaction,
+  UpdateData,
+  FirestoreDataConverter,
+  DocumentChangeType,
+  ReadOptions,
   // FieldValue is imported as value below
 } from 'firebase-admin/firestore';
 
 // Import Admin FieldValue class
 import { FieldValue as AdminFieldValue } from 'firebase-admin/firestore';
+import type { AdminWriteBatch } from './writeBatch';
+import { runBulkWrite } from './bulkWriter';
+import type { AdminBulkWriteOptions, AdminBulkWriteSummary, AdminBulkWriteFailure } from './bulkWriter';
+import { validateDocumentData } from './validation';
+import { toFieldPathSegments } from './fieldPath';
+import type { AdminUpdateBuilderOptions } from './baseUpdateBuilder';
+import { createSchemaConverter } from './converter';
+import type { FieldCodec } from './converter';
+import type { AdminUnsubscribe } from './baseQueryBuilder';
+import { AdminCollectionGroupQueryBuilder } from './collectionGroupQueryBuilder';
+import { toDocumentResult } from './documentResult';
+import { toPrecondition, withConflictDetection } from './precondition';
+import type { AdminPreconditionOptions } from './precondition';
+import type { AdminDocumentResult } from './documentResult';
 
-// Define local types for schema (can be simple for now)
+// Define local types for schema
+export type FieldSchemaType = 'string' | 'number' | 'boolean' | 'timestamp' | 'map' | 'array' | 'reference' | 'geopoint' | 'any';
 export interface FieldSchema {
   defaultValue?: any;
+  // Validation rules, checked by add(), set() and update builders before writing
+  type?: FieldSchemaType;
+  required?: boolean;
+  nullable?: boolean; // Allows an explicit null regardless of type
+  enum?: ReadonlyArray<string | number | boolean>;
+  min?: number; // Minimum value for numbers, minimum length for strings and arrays
+  max?: number; // Maximum value for numbers, maximum length for strings and arrays
+  pattern?: string | RegExp; // Strings only
+  fields?: Record<string, FieldSchema>; // Nested field definitions for 'map' fields
+  values?: FieldSchema; // Value definition for 'map' fields keyed by arbitrary (dynamic) keys
+  items?: FieldSchema; // Item definition for 'array' fields
+  codec?: FieldCodec; // Read/write transformation, applied once a schema converter is attached
 }
 export interface CollectionSchema {
   fields: Record<string, FieldSchema>;
@@ -27,6 +59,91 @@ export interface CollectionSchema {
   }>;
 }
 
+export interface AdminDocumentSnapshotEvent<TData extends DocumentData> {
+  id: string;
+  data: TData | undefined; // undefined while the document does not exist
+  /** How the document changed since the previous event; undefined if it still does not exist. */
+  type: DocumentChangeType | undefined;
+  snapshot: DocumentSnapshot<TData>;
+}
+
+/** Fills in the schema's default values for top-level fields missing from the data. */
+export function applySchemaDefaults<T extends DocumentData>(fields: Record<string, FieldSchema>, data: T): T {
+  const dataWithDefaults: Record<string, any> = { ...data };
+  for (const fieldName in fields) {
+    const fieldDef = fields[fieldName];
+    if (fieldDef.defaultValue === 'serverTimestamp' && dataWithDefaults[fieldName] === undefined) {
+      // Use Admin FieldValue
+      dataWithDefaults[fieldName] = AdminFieldValue.serverTimestamp();
+    }
+    // Handle other literal default values
+    else if (fieldDef.defaultValue !== undefined && dataWithDefaults[fieldName] === undefined) {
+      dataWithDefaults[fieldName] = fieldDef.defaultValue;
+    }
+  }
+  return dataWithDefaults as T;
+}
+
+/** Maximum number of documents requested per `Firestore.getAll()` call by `getMany()`. */
+export const MAX_GET_MANY_CHUNK_SIZE = 100;
+
+/** Only reads the given top-level fields; the returned data is narrowed to them. */
+export interface AdminFieldMaskOptions<TField extends string> {
+  fieldMask: TField[];
+}
+
+export interface AdminGetManyOptions {
+  chunkSize?: number; // Defaults to MAX_GET_MANY_CHUNK_SIZE
+}
+
+export interface AdminGetManyResult<TData extends DocumentData> {
+  docs: AdminDocumentResult<TData>[]; // Found documents, in the order of the requested IDs
+  missingIds: string[]; // Requested IDs with no document, in request order
+}
+
+export interface AdminRecursiveDeleteOptions extends AdminBulkWriteOptions {
+  /** Also delete sub-collections missing from the schema, found with `listCollections()`. */
+  includeUndeclared?: boolean;
+  /** Only count the documents that would be deleted. */
+  dryRun?: boolean;
+}
+
+export interface AdminRecursiveDeleteResult {
+  deleted: Record<string, number>; // Deleted (or, in a dry run, deletable) existing documents per collection path
+  failed: AdminBulkWriteFailure[]; // Failed documents, identified by full path
+}
+
+/** Collects the documents of every sub-collection below a document, walking declared (and optionally undeclared) sub-collections. */
+async function collectDescendants(
+  docRef: DocumentReference<any>,
+  schema: CollectionSchema | undefined,
+  includeUndeclared: boolean,
+  into: DocumentReference<any>[]
+): Promise<void> {
+  const subCollectionIds = new Set(Object.keys(schema?.subCollections ?? {}));
+  if (includeUndeclared) {
+    (await docRef.listCollections()).forEach(collection => subCollectionIds.add(collection.id));
+  }
+  for (const subCollectionId of subCollectionIds) {
+    // listDocuments() also returns missing documents that only hold sub-collections
+    const subDocRefs = await docRef.collection(subCollectionId).listDocuments();
+    for (const subDocRef of subDocRefs) {
+      into.push(subDocRef);
+      await collectDescendants(subDocRef, schema?.subCollections?.[subCollectionId]?.schema, includeUndeclared, into);
+    }
+  }
+}
+
+/** The paths of the given documents that exist, read in chunks without their fields. */
+async function findExistingPaths(firestore: Firestore, refs: DocumentReference<any>[]): Promise<Set<string>> {
+  const existingPaths = new Set<string>();
+  for (let i = 0; i < refs.length; i += MAX_GET_MANY_CHUNK_SIZE) {
+    const snapshots = await firestore.getAll(...refs.slice(i, i + MAX_GET_MANY_CHUNK_SIZE), { fieldMask: [] });
+    snapshots.filter(snapshot => snapshot.exists).forEach(snapshot => existingPaths.add(snapshot.ref.path));
+  }
+  return existingPaths;
+}
+
 export class AdminBaseCollectionRef<
   TData extends DocumentData, // Use SDK's DocumentData
   TAddData extends DocumentData,
@@ -35,6 +152,9 @@ export class AdminBaseCollectionRef<
   protected firestore: Firestore;
   protected collectionId: string;
   protected schema?: CollectionSchema;
+  protected transaction?: Transaction; // Set by withTransaction()
+  protected batch?: AdminWriteBatch; // Set by withBatch()
+  protected converter?: FirestoreDataConverter<TData>; // Set by withSchemaConverter()
 
   constructor(
     firestore: Firestore,
@@ -56,52 +176,102 @@ export class AdminBaseCollectionRef<
     }
   }
 
+  /**
+   * Returns a copy of this collection bound to the given transaction.
+   * Reads and writes on the copy go through the transaction instead of hitting Firestore directly.
+   */
+  withTransaction(transaction: Transaction): this {
+    const newCollection = Object.create(Object.getPrototypeOf(this));
+    Object.assign(newCollection, this);
+    newCollection.transaction = transaction;
+    return newCollection;
+  }
+
+  /**
+   * Returns a copy of this collection bound to the given batch.
+   * Writes on the copy are queued on the batch and applied by `batch.commit()`; reads are unaffected.
+   */
+  withBatch(batch: AdminWriteBatch): this {
+    const newCollection = Object.create(Object.getPrototypeOf(this));
+    Object.assign(newCollection, this);
+    newCollection.batch = batch;
+    return newCollection;
+  }
+
+  /**
+   * Returns a copy of this collection whose `ref` carries a converter built from the schema's field codecs.
+   * Reads (including query builders created from `ref`) are decoded and writes are encoded; sub-collections inherit it.
+   */
+  withSchemaConverter(): this {
+    if (!this.schema) {
+      throw new Error(`Cannot attach a schema converter to collection '${this.ref.id}' without a schema`);
+    }
+    const converter = createSchemaConverter<TData>(this.schema, this.firestore);
+    const newCollection = Object.create(Object.getPrototypeOf(this));
+    Object.assign(newCollection, this);
+    newCollection.converter = converter;
+    newCollection.ref = this.ref.withConverter(converter);
+    return newCollection;
+  }
+
   /** Returns the DocumentReference for a given ID. */
   doc(id: string): DocumentReference<TData> {
     // Use collectionRef's doc method
     return this.ref.doc(id);
   }
 
-  /** Prepares data for writing by applying default values. */
-  protected applyDefaults(data: TAddData): TData {
-    const dataWithDefaults = { ...data };
+  /** Options for update builders created by generated code, keeping them in this collection's transaction/batch and converter mode. */
+  protected updateBuilderOptions(): AdminUpdateBuilderOptions {
+    return { transaction: this.transaction, batch: this.batch, schema: this.schema, applyCodecs: this.converter !== undefined };
+  }
+
+  /**
+   * Validates data against the schema field definitions, throwing a SchemaValidationError.
+   * With `partial`, missing fields are not reported at any level (merge writes), except below `mergeFields`.
+   * When a schema converter is attached, the encoded (stored) form is validated.
+   */
+  protected validate(data: DocumentData, partial = false, mergeFields?: ReadonlyArray<string | FirebaseFirestore.FieldPath>): void {
     if (this.schema) {
-      for (const fieldName in this.schema.fields) {
-        const fieldDef = this.schema.fields[fieldName];
-        if (
-          fieldDef.defaultValue === 'serverTimestamp' &&
-          (dataWithDefaults as any)[fieldName] === undefined
-        ) {
-          // Use Admin FieldValue
-          (dataWithDefaults as any)[fieldName] = AdminFieldValue.serverTimestamp();
-        }
-        // Handle other literal default values
-        else if (
-          fieldDef.defaultValue !== undefined &&
-          fieldDef.defaultValue !== 'serverTimestamp' && // Already handled
-          (dataWithDefaults as any)[fieldName] === undefined
-        ) {
-          (dataWithDefaults as any)[fieldName] = fieldDef.defaultValue;
-        }
-      }
+      const storedData = this.converter ? this.converter.toFirestore(data as any) : data;
+      validateDocumentData(this.schema.fields, storedData, { partial, mergeFields: mergeFields?.map(path => toFieldPathSegments(path)) });
     }
+  }
+
+  /** Prepares data for writing by applying default values. */
+  protected applyDefaults(data: TAddData): TData {
+    const dataWithDefaults = this.schema ? applySchemaDefaults(this.schema.fields, data) : { ...data };
     return dataWithDefaults as unknown as TData;
   }
 
   /** Adds a new document. */
   async add(data: TAddData): Promise<DocumentReference<TData>> {
     const dataToWrite = this.applyDefaults(data);
+    this.validate(dataToWrite);
+    if (this.transaction) {
+      // Transactions have no add(), so create a document with an auto-generated ID instead
+      const docRef = this.ref.doc();
+      this.transaction.create(docRef, dataToWrite);
+      return docRef;
+    }
+    if (this.batch) {
+      const docRef = this.ref.doc();
+      this.batch.create(docRef, dataToWrite);
+      return docRef;
+    }
     // Use collectionRef's add method
     return this.ref.add(dataToWrite);
   }
 
-  /** Sets the data for a document, overwriting existing data unless merge options are provided. */
+  /**
+   * Sets the data for a document, overwriting existing data unless merge options are provided.
+   * Resolves to `undefined` when bound to a transaction or batch, as the write is only applied on their commit.
+   */
   // Overload for setting the entire document (no merge options or explicit merge: false)
-  async set(id: string, data: TAddData, options?: SetOptions & { merge?: false | undefined }): Promise<FirebaseFirestore.WriteResult>;
+  async set(id: string, data: TAddData, options?: SetOptions & { merge?: false | undefined }): Promise<FirebaseFirestore.WriteResult | undefined>;
   // Overload for setting with merge options (accepts partial data, requires merge:true or mergeFields)
-  async set(id: string, data: Partial<TAddData>, options: SetOptions & ({ merge: true } | { mergeFields: ReadonlyArray<string | FirebaseFirestore.FieldPath> })): Promise<FirebaseFirestore.WriteResult>;
+  async set(id: string, data: Partial<TAddData>, options: SetOptions & ({ merge: true } | { mergeFields: ReadonlyArray<string | FirebaseFirestore.FieldPath> })): Promise<FirebaseFirestore.WriteResult | undefined>;
   // Implementation signature
-  async set(id: string, data: TAddData | Partial<TAddData>, options?: SetOptions): Promise<FirebaseFirestore.WriteResult> {
+  async set(id: string, data: TAddData | Partial<TAddData>, options?: SetOptions): Promise<FirebaseFirestore.WriteResult | undefined> {
     const docRef = this.doc(id);
 
     // Determine if it's a merge operation
@@ -110,6 +280,16 @@ export class AdminBaseCollectionRef<
     // Apply defaults ONLY if it's NOT a merge operation (setting the whole document)
     // We cast data to TAddData here because the overload guarantees it's the full type when !isMerge.
     const dataToWrite = !isMerge ? this.applyDefaults(data as TAddData) : data;
+    this.validate(dataToWrite, !!isMerge, options && 'mergeFields' in options ? options.mergeFields : undefined);
+
+    if (this.transaction) {
+      this.transaction.set(docRef, dataToWrite as Partial<TData>, options || {});
+      return undefined;
+    }
+    if (this.batch) {
+      this.batch.set(docRef, dataToWrite, options || {});
+      return undefined;
+    }
 
     // Use documentRef's set method
     // Cast dataToWrite to Partial<TData> which is compatible with set's expectation for merge operations.
@@ -117,21 +297,131 @@ export class AdminBaseCollectionRef<
     return docRef.set(dataToWrite as Partial<TData>, options || {});
   }
 
-  /** Deletes a document. */
-  async delete(id: string): Promise<FirebaseFirestore.WriteResult> {
+  /**
+   * Deletes a document. Resolves to `undefined` when bound to a transaction or batch.
+   * With `lastUpdateTime`, only deletes if the document is unchanged since then; a direct delete
+   * rejects with an AdminConflictError otherwise.
+   */
+  async delete(id: string, options?: AdminPreconditionOptions): Promise<FirebaseFirestore.WriteResult | undefined> {
     const docRef = this.doc(id);
+    const precondition = toPrecondition(options);
+    const preconditionArgs = precondition ? [precondition] : []; // Only passed when set
+    if (this.transaction) {
+      this.transaction.delete(docRef, ...preconditionArgs);
+      return undefined;
+    }
+    if (this.batch) {
+      this.batch.delete(docRef, ...preconditionArgs);
+      return undefined;
+    }
     // Use documentRef's delete method
-    return docRef.delete();
+    return withConflictDetection(docRef.delete(...preconditionArgs), docRef.path, precondition);
   }
 
-  /** Reads a single document. */
-  async get(id: string): Promise<TData | undefined> {
+  /** Reads a single document snapshot, optionally restricted to a field mask. */
+  protected async getSnapshot(id: string, fieldMask?: string[]): Promise<DocumentSnapshot<TData>> {
     const docRef = this.doc(id);
-    // Use documentRef's get method
-    const snapshot: DocumentSnapshot<TData> = await docRef.get();
+    if (fieldMask) {
+      // Field masks are only supported by getAll()
+      const [snapshot] = this.transaction
+        ? await this.transaction.getAll(docRef, { fieldMask })
+        : await this.firestore.getAll(docRef, { fieldMask }) as DocumentSnapshot<TData>[];
+      return snapshot;
+    }
+    // Use documentRef's get method, or read through the transaction if bound to one
+    return this.transaction ? this.transaction.get(docRef) : docRef.get();
+  }
+
+  /** Reads a single document, optionally only the fields in `fieldMask`. */
+  get(id: string): Promise<TData | undefined>;
+  get<K extends keyof TData & string>(id: string, options: AdminFieldMaskOptions<K>): Promise<Pick<TData, K> | undefined>;
+  async get(id: string, options?: AdminFieldMaskOptions<string>): Promise<Partial<TData> | undefined> {
+    const snapshot = await this.getSnapshot(id, options?.fieldMask);
     return snapshot.exists ? snapshot.data() : undefined;
   }
 
+  /** Reads a single document with its ID, reference and create/update/read times. */
+  getWithMeta(id: string): Promise<AdminDocumentResult<TData> | undefined>;
+  getWithMeta<K extends keyof TData & string>(
+    id: string,
+    options: AdminFieldMaskOptions<K>
+  ): Promise<AdminDocumentResult<Pick<TData, K>> | undefined>;
+  async getWithMeta(id: string, options?: AdminFieldMaskOptions<string>): Promise<AdminDocumentResult<TData> | undefined> {
+    const snapshot = await this.getSnapshot(id, options?.fieldMask);
+    return snapshot.exists ? toDocumentResult(snapshot) : undefined;
+  }
+
+  /**
+   * Reads many documents by ID with batched `getAll()` calls, through the bound transaction if any.
+   * Duplicate IDs are read once. With `fieldMask`, only those fields are read.
+   */
+  getMany(ids: ReadonlyArray<string>, options?: AdminGetManyOptions): Promise<AdminGetManyResult<TData>>;
+  getMany<K extends keyof TData & string>(
+    ids: ReadonlyArray<string>,
+    options: AdminGetManyOptions & AdminFieldMaskOptions<K>
+  ): Promise<AdminGetManyResult<Pick<TData, K>>>;
+  async getMany(
+    ids: ReadonlyArray<string>,
+    options: AdminGetManyOptions & Partial<AdminFieldMaskOptions<string>> = {}
+  ): Promise<AdminGetManyResult<TData>> {
+    const chunkSize = options.chunkSize ?? MAX_GET_MANY_CHUNK_SIZE;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+      throw new Error(`Chunk size must be a positive integer, got ${chunkSize}`);
+    }
+    const uniqueIds = Array.from(new Set(ids));
+
+    const chunks: string[][] = [];
+    for (let i = 0; i < uniqueIds.length; i += chunkSize) {
+      chunks.push(uniqueIds.slice(i, i + chunkSize));
+    }
+    const chunkSnapshots = await Promise.all(chunks.map(chunkIds => {
+      const args: Array<DocumentReference<TData> | ReadOptions> = chunkIds.map(id => this.doc(id));
+      if (options.fieldMask) {
+        args.push({ fieldMask: options.fieldMask });
+      }
+      // Use firestore's getAll, or read through the transaction if bound to one
+      return this.transaction
+        ? this.transaction.getAll(...args)
+        : this.firestore.getAll(...args) as Promise<DocumentSnapshot<TData>[]>;
+    }));
+
+    // getAll() returns snapshots in request order; look them up by ID to be safe
+    const snapshotsById = new Map<string, DocumentSnapshot<TData>>();
+    chunkSnapshots.forEach(snapshots => snapshots.forEach(snapshot => snapshotsById.set(snapshot.id, snapshot)));
+    const result: AdminGetManyResult<TData> = { docs: [], missingIds: [] };
+    uniqueIds.forEach(id => {
+      const snapshot = snapshotsById.get(id);
+      if (snapshot?.exists) {
+        result.docs.push(toDocumentResult(snapshot));
+      } else {
+        result.missingIds.push(id);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Listens to a single document in realtime.
+   * Returns an unsubscribe function; `onError` is called if the listener fails.
+   */
+  onSnapshot(
+    id: string,
+    onNext: (event: AdminDocumentSnapshotEvent<TData>) => void,
+    onError?: (error: Error) => void
+  ): AdminUnsubscribe {
+    let existed = false;
+    return this.doc(id).onSnapshot(snapshot => {
+      let type: DocumentChangeType | undefined;
+      if (snapshot.exists) {
+        type = existed ? 'modified' : 'added';
+      } else if (existed) {
+        type = 'removed';
+      }
+      existed = snapshot.exists;
+      onNext({ id: snapshot.id, data: snapshot.exists ? snapshot.data() : undefined, type, snapshot });
+    }, onError);
+  }
+
   /**
    * Helper to access a subcollection factory.
    * Needs the specific SubCollectionClass constructor.
@@ -164,17 +454,128 @@ export class AdminBaseCollectionRef<
     // 4. Instantiate using the correct constructor signature expected by AdminBaseCollectionRef
     //    The constructor now handles getting the subcollection ref via parentRef.collection()
     //    We pass the parentRef explicitly.
-    return new ResolvedSubCollectionClass(
+    const subCollectionInstance = new ResolvedSubCollectionClass(
         this.firestore, // Pass Firestore instance
         subCollectionId, // Pass subCollectionId
         subCollectionDef.schema, // Pass schema from definition
         parentDocRef // Pass parentRef
     );
+
+    // 5. Keep the sub-collection in the same transaction or batch, and converter mode, as its parent
+    let boundSubCollection = subCollectionInstance;
+    if (this.converter && subCollectionDef.schema) {
+      boundSubCollection = boundSubCollection.withSchemaConverter();
+    }
+    if (this.transaction) {
+      return boundSubCollection.withTransaction(this.transaction);
+    }
+    return this.batch ? boundSubCollection.withBatch(this.batch) : boundSubCollection;
+  }
+
+  /**
+   * Creates a collection group query over every `subCollectionId` sub-collection declared in the schema,
+   * typed with the sub-collection's data. `parentPath` is a template ending in a document of this
+   * collection, e.g. 'users/{userId}'; its placeholders name the parent IDs parsed from each result's path.
+   */
+  public collectionGroup<SubTData extends DocumentData, TParentPath extends string = string>(
+    subCollectionId: string,
+    parentPath: TParentPath
+  ): AdminCollectionGroupQueryBuilder<SubTData, TParentPath> {
+    const subCollectionDef = this.schema?.subCollections?.[subCollectionId];
+    if (!subCollectionDef) {
+      throw new Error(`Sub-collection '${subCollectionId}' not found in schema for collection '${this.ref.id}'`);
+    }
+    const segments = parentPath.split('/');
+    if (segments[segments.length - 2] !== this.collectionId) {
+      throw new Error(`Parent path '${parentPath}' must end in a document of collection '${this.collectionId}'`);
+    }
+
+    // Keep the same converter mode and transaction as this collection
+    const converter = this.converter && subCollectionDef.schema
+      ? createSchemaConverter<SubTData>(subCollectionDef.schema, this.firestore)
+      : undefined;
+    const builder = new AdminCollectionGroupQueryBuilder<SubTData, TParentPath>(this.firestore, subCollectionId, parentPath, converter);
+    return this.transaction ? builder.withTransaction(this.transaction) : builder;
   }
 
   // --- Admin Specific Methods ---
-  // Example: bulkWriter() - Actual implementation might differ
-  // bulkWriter(): FirebaseFirestore.BulkWriter {
-  //   return this.firestore.bulkWriter();
-  // }
+
+  /** Sets many documents through a BulkWriter, applying default values to each. */
+  async bulkSet(
+    entries: ReadonlyArray<{ id: string; data: TAddData }>,
+    options?: AdminBulkWriteOptions
+  ): Promise<AdminBulkWriteSummary> {
+    const operations = entries.map(({ id, data }) => {
+      const dataToWrite = this.applyDefaults(data);
+      this.validate(dataToWrite);
+      return { type: 'set' as const, ref: this.doc(id), data: dataToWrite };
+    });
+    return runBulkWrite(this.firestore, operations, options);
+  }
+
+  /** Updates many existing documents through a BulkWriter. */
+  async bulkUpdate(
+    entries: ReadonlyArray<{ id: string; data: UpdateData<TData> }>,
+    options?: AdminBulkWriteOptions
+  ): Promise<AdminBulkWriteSummary> {
+    const operations = entries.map(({ id, data }) => ({
+      type: 'update' as const,
+      ref: this.doc(id),
+      data: data as Record<string, any>,
+    }));
+    return runBulkWrite(this.firestore, operations, options);
+  }
+
+  /** Deletes many documents through a BulkWriter. */
+  async bulkDelete(ids: ReadonlyArray<string>, options?: AdminBulkWriteOptions): Promise<AdminBulkWriteSummary> {
+    const operations = ids.map(id => ({ type: 'delete' as const, ref: this.doc(id) }));
+    return runBulkWrite(this.firestore, operations, options);
+  }
+
+  /**
+   * Deletes a document and every document in the sub-collections declared in the schema below it.
+   * Collections are deleted deepest first with bulk writes; a document is kept if any of its
+   * descendants failed to delete, so a retry can still reach them. Only existing documents are deleted
+   * and counted, not the missing ones that merely hold sub-collections.
+   */
+  async deleteRecursive(id: string, options: AdminRecursiveDeleteOptions = {}): Promise<AdminRecursiveDeleteResult> {
+    const { includeUndeclared = false, dryRun = false, ...bulkOptions } = options;
+    const rootRef = this.doc(id);
+    const docRefs: DocumentReference<any>[] = [rootRef];
+    await collectDescendants(rootRef, this.schema, includeUndeclared, docRefs);
+
+    // Group by collection, deepest collections first
+    const refsByCollection = new Map<string, DocumentReference<any>[]>();
+    docRefs.forEach(ref => {
+      const collectionPath = ref.parent.path;
+      refsByCollection.set(collectionPath, [...(refsByCollection.get(collectionPath) ?? []), ref]);
+    });
+    const collectionPaths = Array.from(refsByCollection.keys())
+      .sort((a, b) => b.split('/').length - a.split('/').length);
+
+    const result: AdminRecursiveDeleteResult = { deleted: {}, failed: [] };
+    for (const collectionPath of collectionPaths) {
+      const existingPaths = await findExistingPaths(this.firestore, refsByCollection.get(collectionPath)!);
+      const refs = refsByCollection.get(collectionPath)!.filter(ref => existingPaths.has(ref.path));
+      if (dryRun) {
+        result.deleted[collectionPath] = refs.length;
+        continue;
+      }
+      const deletableRefs = refs.filter(ref => {
+        const blocked = result.failed.some(failure => failure.id.startsWith(`${ref.path}/`));
+        if (blocked) {
+          result.failed.push({ id: ref.path, error: new Error(`Document '${ref.path}' was not deleted because some of its descendants could not be deleted`) });
+        }
+        return !blocked;
+      });
+      const summary = await runBulkWrite(
+        this.firestore,
+        deletableRefs.map(ref => ({ type: 'delete' as const, ref })),
+        bulkOptions
+      );
+      result.deleted[collectionPath] = summary.succeeded.length;
+      summary.failed.forEach(failure => result.failed.push({ id: `${collectionPath}/${failure.id}`, error: failure.error }));
+    }
+    return result;
+  }
 }
\ No newline at end of file
@@ -8,33 +8,265 @@ import type {
   DocumentSnapshot,
   DocumentData,
   QuerySnapshot,
+  QueryDocumentSnapshot,
+  Transaction,
   WhereFilterOp,
   OrderByDirection,
-  FieldPath as AdminFieldPath, // Import Admin FieldPath
+  AggregateSpec,
+  AggregateSpecData,
+  DocumentChangeType,
 } from 'firebase-admin/firestore';
 
+// Import Admin FieldPath class (needed as a value for FieldPath.documentId()) and AggregateField
+import { FieldPath as AdminFieldPath, AggregateField as AdminAggregateField, Filter as AdminFilter } from 'firebase-admin/firestore';
+import { encodeValue, decodeValue, stableHash } from './serialization';
+import { encodePageToken, decodePageToken, PageTokenError } from './pageToken';
+import type { PageTokenOptions } from './pageToken';
+import type { EncodedValue } from './serialization';
+import { toDocumentResult } from './documentResult';
+import type { AdminDocumentResult } from './documentResult';
+import type { Readable } from 'stream';
+
 // Define local types for constraints (can be simple for now)
 export type AdminWhereFilterOp = WhereFilterOp;
 export type AdminOrderByDirection = OrderByDirection;
 
 // Internal constraint definition structure
-type ConstraintType = 'where' | 'orderBy' | 'limit' | 'limitToLast' | 'startAt' | 'startAfter' | 'endAt' | 'endBefore';
+type ConstraintType = 'where' | 'or' | 'and' | 'select' | 'orderBy' | 'limit' | 'limitToLast' | 'startAt' | 'startAfter' | 'endAt' | 'endBefore';
 interface BaseConstraint { type: ConstraintType; }
 interface WhereConstraint extends BaseConstraint { type: 'where'; fieldPath: string | AdminFieldPath; opStr: AdminWhereFilterOp; value: any; }
+interface CompositeFilterConstraint extends BaseConstraint { type: 'or' | 'and'; filters: AdminFilterDefinition[]; }
+interface SelectConstraint extends BaseConstraint { type: 'select'; fieldPaths: string[]; }
 interface OrderByConstraint extends BaseConstraint { type: 'orderBy'; fieldPath: string | AdminFieldPath; directionStr: AdminOrderByDirection; }
 interface LimitConstraint extends BaseConstraint { type: 'limit' | 'limitToLast'; limitCount: number; }
 interface CursorConstraint extends BaseConstraint { type: 'startAt' | 'startAfter' | 'endAt' | 'endBefore'; snapshotOrFieldValue: any; fieldValues: unknown[]; }
-type QueryConstraintDefinition = WhereConstraint | OrderByConstraint | LimitConstraint | CursorConstraint;
+export type QueryConstraintDefinition = WhereConstraint | CompositeFilterConstraint | SelectConstraint | OrderByConstraint | LimitConstraint | CursorConstraint;
+
+/** A field filter or a nested or/and group of filters. Build with `whereFilter()`, `orFilter()` and `andFilter()`. */
+export type AdminFilterDefinition = WhereConstraint | CompositeFilterConstraint;
+
+/** A single field filter, for use inside `orFilter()` / `andFilter()` groups. */
+export function whereFilter(fieldPath: string | AdminFieldPath, opStr: AdminWhereFilterOp, value: any): AdminFilterDefinition {
+  return { type: 'where', fieldPath, opStr, value };
+}
+
+/** Matches documents that satisfy at least one of the filters. */
+export function orFilter(...filters: AdminFilterDefinition[]): AdminFilterDefinition {
+  return { type: 'or', filters };
+}
+
+/** Matches documents that satisfy all of the filters. */
+export function andFilter(...filters: AdminFilterDefinition[]): AdminFilterDefinition {
+  return { type: 'and', filters };
+}
+
+/** Translates a filter definition into an Admin SDK Filter. */
+function toAdminFilter(filter: AdminFilterDefinition): AdminFilter {
+  switch (filter.type) {
+    case 'where':
+      return AdminFilter.where(filter.fieldPath, filter.opStr, filter.value);
+    case 'or':
+      return AdminFilter.or(...filter.filters.map(toAdminFilter));
+    case 'and':
+      return AdminFilter.and(...filter.filters.map(toAdminFilter));
+    default: throw new Error(`Unsupported admin filter type: ${(filter as any).type}`);
+  }
+}
+
+/** JSON-safe form of a filter definition, used for query shape hashing. */
+function filterShape(filter: AdminFilterDefinition): Record<string, unknown> {
+  if (filter.type === 'where') {
+    return { type: filter.type, fieldPath: String(filter.fieldPath), opStr: filter.opStr, value: encodeValue(filter.value) };
+  }
+  return { type: filter.type, filters: filter.filters.map(filterShape) };
+}
+
+/** Thrown before a query is sent when its constraints break one of Firestore's query rules. */
+export class QueryValidationError extends Error {
+  readonly constraint: QueryConstraintDefinition; // The offending constraint
+
+  constructor(constraint: QueryConstraintDefinition, reason: string) {
+    super(`Invalid query constraint ${describeConstraint(constraint)}: ${reason}`);
+    this.name = 'QueryValidationError';
+    this.constraint = constraint;
+  }
+}
+
+/** Short human-readable form of a constraint, e.g. `where('status', 'in', [31 values])`. */
+function describeConstraint(def: QueryConstraintDefinition): string {
+  switch (def.type) {
+    case 'where': {
+      const value = Array.isArray(def.value) ? `[${def.value.length} values]` : JSON.stringify(def.value) ?? String(def.value);
+      return `where('${String(def.fieldPath)}', '${def.opStr}', ${value})`;
+    }
+    case 'or':
+    case 'and':
+      return `${def.type}(${def.filters.length} filters)`;
+    case 'orderBy':
+      return `orderBy('${String(def.fieldPath)}', '${def.directionStr}')`;
+    case 'limit':
+    case 'limitToLast':
+      return `${def.type}(${def.limitCount})`;
+    default:
+      return `${def.type}(...)`;
+  }
+}
+
+// Firestore query limits
+const MAX_DISJUNCTION_VALUES = 30; // 'in' and 'array-contains-any'
+const MAX_NOT_IN_VALUES = 10;
+const INEQUALITY_OPS: AdminWhereFilterOp[] = ['<', '<=', '>', '>=', '!=', 'not-in'];
+const ARRAY_VALUE_OPS: AdminWhereFilterOp[] = ['in', 'not-in', 'array-contains-any'];
+
+/** All field filters in the constraints, including those nested in or/and groups. */
+function collectFieldFilters(definitions: QueryConstraintDefinition[]): WhereConstraint[] {
+  const filters: WhereConstraint[] = [];
+  const visit = (def: QueryConstraintDefinition) => {
+    if (def.type === 'where') {
+      filters.push(def);
+    } else if (def.type === 'or' || def.type === 'and') {
+      def.filters.forEach(visit);
+    }
+  };
+  definitions.forEach(visit);
+  return filters;
+}
+
+/** JSON form of a constraint; field paths and values use the tagged encoding from `encodeValue()`. */
+export type SerializedQueryConstraint =
+  | { type: 'where'; fieldPath: EncodedValue; opStr: AdminWhereFilterOp; value: EncodedValue }
+  | { type: 'or' | 'and'; filters: SerializedQueryConstraint[] }
+  | { type: 'select'; fieldPaths: string[] }
+  | { type: 'orderBy'; fieldPath: EncodedValue; directionStr: AdminOrderByDirection }
+  | { type: 'limit' | 'limitToLast'; limitCount: number }
+  | { type: 'startAt' | 'startAfter' | 'endAt' | 'endBefore'; values: EncodedValue[] };
+
+/** Stable JSON form of a query, produced by `toJSON()` and accepted by `fromJSON()`. */
+export interface SerializedQuery {
+  v: 1; // Format version
+  path: string; // Collection path
+  constraints: SerializedQueryConstraint[];
+}
+
+/** True for DocumentSnapshots, which cannot be serialized as cursors. */
+function isDocumentSnapshotLike(value: any): boolean {
+  return typeof value === 'object' && value !== null && typeof value.data === 'function' && typeof value.ref === 'object';
+}
+
+function serializeConstraint(def: QueryConstraintDefinition): SerializedQueryConstraint {
+  switch (def.type) {
+    case 'where':
+      return { type: def.type, fieldPath: encodeValue(def.fieldPath), opStr: def.opStr, value: encodeValue(def.value) };
+    case 'or':
+    case 'and':
+      return { type: def.type, filters: def.filters.map(serializeConstraint) };
+    case 'select':
+      return { type: def.type, fieldPaths: [...def.fieldPaths] };
+    case 'orderBy':
+      return { type: def.type, fieldPath: encodeValue(def.fieldPath), directionStr: def.directionStr };
+    case 'limit':
+    case 'limitToLast':
+      return { type: def.type, limitCount: def.limitCount };
+    case 'startAt':
+    case 'startAfter':
+    case 'endAt':
+    case 'endBefore':
+      if (isDocumentSnapshotLike(def.snapshotOrFieldValue)) {
+        throw new Error(`Cannot serialize a '${def.type}' cursor built from a DocumentSnapshot; use field values or a page token instead.`);
+      }
+      return { type: def.type, values: [def.snapshotOrFieldValue, ...def.fieldValues].map(encodeValue) };
+    default: throw new Error(`Unsupported admin constraint type: ${(def as any).type}`);
+  }
+}
+
+function deserializeConstraint(json: SerializedQueryConstraint, firestore: Firestore): QueryConstraintDefinition {
+  switch (json.type) {
+    case 'where':
+      return { type: json.type, fieldPath: decodeValue(json.fieldPath, firestore), opStr: json.opStr, value: decodeValue(json.value, firestore) };
+    case 'or':
+    case 'and':
+      return { type: json.type, filters: json.filters.map(filter => deserializeConstraint(filter, firestore) as AdminFilterDefinition) };
+    case 'select':
+      return { type: json.type, fieldPaths: [...json.fieldPaths] };
+    case 'orderBy':
+      return { type: json.type, fieldPath: decodeValue(json.fieldPath, firestore), directionStr: json.directionStr };
+    case 'limit':
+    case 'limitToLast':
+      return { type: json.type, limitCount: json.limitCount };
+    case 'startAt':
+    case 'startAfter':
+    case 'endAt':
+    case 'endBefore': {
+      const [snapshotOrFieldValue, ...fieldValues] = json.values.map(value => decodeValue(value, firestore));
+      return { type: json.type, snapshotOrFieldValue, fieldValues };
+    }
+    default: throw new Error(`Unsupported serialized constraint type: ${(json as any).type}`);
+  }
+}
+
+/** One page of query results, with the snapshot to resume after. */
+export interface AdminQueryPage<TData extends DocumentData> {
+  data: TData[];
+  docs: QueryDocumentSnapshot<TData>[];
+  /** Cursor for the next page (`getPage({ after })`); undefined for an empty page. */
+  lastSnapshot?: QueryDocumentSnapshot<TData>;
+  hasMore: boolean;
+}
+
+/** A typed added/modified/removed change delivered by realtime listeners. */
+export interface AdminDocumentChange<TData extends DocumentData> {
+  type: DocumentChangeType;
+  id: string;
+  data: TData; // For 'removed' changes, the last known data
+  doc: QueryDocumentSnapshot<TData>;
+  oldIndex: number; // -1 for 'added'
+  newIndex: number; // -1 for 'removed'
+}
+
+export interface AdminQuerySnapshotEvent<TData extends DocumentData> {
+  data: TData[]; // Current results, in query order
+  changes: AdminDocumentChange<TData>[]; // Changes since the previous event (all docs as 'added' initially)
+  snapshot: QuerySnapshot<TData>;
+}
+
+/** Stops a realtime listener. */
+export type AdminUnsubscribe = () => void;
+
+/** True if the field path refers to the document ID (`FieldPath.documentId()` / `__name__`). */
+function isDocumentIdPath(fieldPath: string | AdminFieldPath): boolean {
+  return String(fieldPath) === '__name__';
+}
+
+export interface AdminPageOptions<TData extends DocumentData> {
+  pageSize: number;
+  /** Resume after this document (usually `lastSnapshot` of the previous page). */
+  after?: DocumentSnapshot<TData>;
+}
 
 
 export class AdminBaseQueryBuilder<TData extends DocumentData> {
   protected firestore: Firestore;
   protected collectionRef: CollectionReference<TData>;
   protected constraintDefinitions: QueryConstraintDefinition[] = [];
+  protected transaction?: Transaction;
 
-  constructor(firestore: Firestore, collectionRef: CollectionReference<TData>) {
+  constructor(firestore: Firestore, collectionRef: CollectionReference<TData>, transaction?: Transaction) {
     this.firestore = firestore;
     this.collectionRef = collectionRef;
+    this.transaction = transaction;
+  }
+
+  /** Identifies the queried collection in serialized queries and page tokens. */
+  protected queryPath(): string {
+    return this.collectionRef.path;
+  }
+
+  /** Returns a copy of this builder that executes its query through the given transaction. */
+  withTransaction(transaction: Transaction): this {
+    const newBuilder = Object.create(Object.getPrototypeOf(this));
+    Object.assign(newBuilder, this);
+    newBuilder.transaction = transaction;
+    return newBuilder;
   }
 
   /** Adds a constraint definition immutably. */
@@ -50,6 +282,24 @@ export class AdminBaseQueryBuilder<TData extends DocumentData> {
     return this.addConstraintDefinition({ type: 'where', fieldPath, opStr, value });
   }
 
+  /**
+   * Adds a filter, which may be a nested or/and group, e.g.
+   * `filter(orFilter(whereFilter('status', '==', 'active'), whereFilter('priority', '>', 5)))`.
+   * Multiple filter and where constraints are combined with AND.
+   */
+  filter(filter: AdminFilterDefinition): this {
+    return this.addConstraintDefinition(filter);
+  }
+
+  /**
+   * Only reads the given fields of the matching documents; the result type is narrowed to them.
+   * Returns a plain base builder, so call it after any generated where methods.
+   */
+  select<K extends keyof TData & string>(...fields: K[]): AdminBaseQueryBuilder<Pick<TData, K>> {
+    const builder = this.addConstraintDefinition({ type: 'select', fieldPaths: fields });
+    return builder as unknown as AdminBaseQueryBuilder<Pick<TData, K>>;
+  }
+
   /** Adds an orderBy clause. */
   orderBy(
     fieldPath: string | AdminFieldPath, // Correct type for Admin SDK
@@ -82,16 +332,101 @@ export class AdminBaseQueryBuilder<TData extends DocumentData> {
     return this.addConstraintDefinition({ type: 'endAt', snapshotOrFieldValue, fieldValues });
   }
 
+  // --- Serialization ---
+
+  /**
+   * Serializes the query to a stable JSON form (e.g. for logging or sending to another service).
+   * Throws if a cursor was built from a DocumentSnapshot.
+   */
+  toJSON(): SerializedQuery {
+    return { v: 1, path: this.queryPath(), constraints: this.constraintDefinitions.map(serializeConstraint) };
+  }
+
+  /** Returns a copy of this builder with the constraints of a serialized query on the same collection. */
+  fromJSON(json: SerializedQuery): this {
+    if (json?.v !== 1 || !Array.isArray(json.constraints)) {
+      throw new Error('Unsupported serialized query format.');
+    }
+    if (json.path !== this.queryPath()) {
+      throw new Error(`Serialized query targets '${json.path}', not '${this.queryPath()}'.`);
+    }
+    const newBuilder = Object.create(Object.getPrototypeOf(this));
+    Object.assign(newBuilder, this);
+    newBuilder.constraintDefinitions = json.constraints.map(def => deserializeConstraint(def, this.firestore));
+    return newBuilder;
+  }
+
+  /** Deterministic hash of the serialized query, usable as a cache key. */
+  hash(): string {
+    return stableHash(this.toJSON());
+  }
+
   // --- Execution ---
 
+  /**
+   * Checks the constraints against Firestore's query rules, throwing a QueryValidationError
+   * naming the offending constraint. Called by `buildQuery()`, so invalid queries fail before any request.
+   */
+  validate(): void {
+    const fieldFilters = collectFieldFilters(this.constraintDefinitions);
+
+    let notInFilter: WhereConstraint | undefined;
+    let notEqualFilter: WhereConstraint | undefined;
+    fieldFilters.forEach(def => {
+      if (ARRAY_VALUE_OPS.includes(def.opStr)) {
+        if (!Array.isArray(def.value) || def.value.length === 0) {
+          throw new QueryValidationError(def, `'${def.opStr}' requires a non-empty array of values.`);
+        }
+        const maxValues = def.opStr === 'not-in' ? MAX_NOT_IN_VALUES : MAX_DISJUNCTION_VALUES;
+        if (def.value.length > maxValues) {
+          throw new QueryValidationError(def, `'${def.opStr}' supports at most ${maxValues} values, got ${def.value.length}.`);
+        }
+      }
+      if (def.opStr === 'not-in') {
+        if (notInFilter) {
+          throw new QueryValidationError(def, `a query can contain only one 'not-in' filter.`);
+        }
+        notInFilter = def;
+      } else if (def.opStr === '!=') {
+        notEqualFilter = notEqualFilter ?? def;
+      }
+    });
+    if (notInFilter && notEqualFilter) {
+      throw new QueryValidationError(notEqualFilter, `'!=' cannot be combined with the 'not-in' filter on '${String(notInFilter.fieldPath)}'.`);
+    }
+
+    const orderBys = this.constraintDefinitions.filter((def): def is OrderByConstraint => def.type === 'orderBy');
+    const inequalityFields = fieldFilters.filter(def => INEQUALITY_OPS.includes(def.opStr)).map(def => String(def.fieldPath));
+    if (orderBys.length > 0 && inequalityFields.length > 0 && !inequalityFields.includes(String(orderBys[0].fieldPath))) {
+      throw new QueryValidationError(
+        orderBys[0],
+        `the first orderBy must be on the inequality filter field '${inequalityFields[0]}'.`
+      );
+    }
+
+    const limitToLastDef = this.constraintDefinitions.find(def => def.type === 'limitToLast');
+    if (limitToLastDef && orderBys.length === 0) {
+      throw new QueryValidationError(limitToLastDef, 'limitToLast requires at least one orderBy constraint.');
+    }
+  }
+
   /** Builds the final Firestore Query object using chaining. */
   buildQuery(): Query<TData> {
+    this.validate();
     let adminQuery: Query<TData> = this.collectionRef; // Start with the collection ref
     this.constraintDefinitions.forEach(def => {
       switch (def.type) {
         case 'where':
           adminQuery = adminQuery.where(def.fieldPath, def.opStr, def.value);
           break;
+        case 'or':
+        case 'and':
+          adminQuery = adminQuery.where(toAdminFilter(def));
+          break;
+        case 'select':
+          // select() keeps the converter but is typed as returning untyped documents
+          adminQuery = adminQuery.select(...def.fieldPaths) as Query<TData>;
+          break;
         case 'orderBy':
           adminQuery = adminQuery.orderBy(def.fieldPath, def.directionStr);
           break;
@@ -122,8 +457,8 @@ export class AdminBaseQueryBuilder<TData extends DocumentData> {
   /** Executes the query and returns the QuerySnapshot. */
   async getSnapshot(): Promise<QuerySnapshot<TData>> {
     const q = this.buildQuery();
-    // Use query's get method
-    return q.get();
+    // Use query's get method, or read through the transaction if bound to one
+    return this.transaction ? this.transaction.get(q) : q.get();
   }
 
   /** Executes the query and returns the matching documents' data. */
@@ -131,4 +466,231 @@ export class AdminBaseQueryBuilder<TData extends DocumentData> {
     const snapshot = await this.getSnapshot();
     return snapshot.docs.map(doc => doc.data());
   }
+
+  /** Executes the query and returns the matching documents with their IDs, references and metadata. */
+  async getDocs(): Promise<AdminDocumentResult<TData>[]> {
+    const snapshot = await this.getSnapshot();
+    return snapshot.docs.map(doc => toDocumentResult(doc));
+  }
+
+  // --- Realtime Listeners ---
+
+  /**
+   * Listens to the query results in realtime.
+   * `onNext` receives the current results and typed changes for every snapshot; returns an unsubscribe function.
+   */
+  onSnapshot(
+    onNext: (event: AdminQuerySnapshotEvent<TData>) => void,
+    onError?: (error: Error) => void
+  ): AdminUnsubscribe {
+    return this.buildQuery().onSnapshot(snapshot => {
+      onNext({
+        data: snapshot.docs.map(doc => doc.data()),
+        changes: snapshot.docChanges().map(change => ({
+          type: change.type,
+          id: change.doc.id,
+          data: change.doc.data(),
+          doc: change.doc,
+          oldIndex: change.oldIndex,
+          newIndex: change.newIndex,
+        })),
+        snapshot,
+      });
+    }, onError);
+  }
+
+  // --- Streaming ---
+
+  /**
+   * Streams the matching document snapshots one at a time using `Query.stream()`.
+   * Documents are pulled as the consumer iterates (backpressure), and breaking out early
+   * destroys the underlying stream so the query stops reading.
+   */
+  async *streamSnapshots(): AsyncIterableIterator<QueryDocumentSnapshot<TData>> {
+    if (this.transaction) {
+      throw new Error('Streaming is not supported for queries bound to a transaction; use get() instead.');
+    }
+    const stream = this.buildQuery().stream() as unknown as Readable;
+    try {
+      for await (const doc of stream) {
+        yield doc as QueryDocumentSnapshot<TData>;
+      }
+    } finally {
+      stream.destroy(); // No-op once fully consumed; stops reading if the consumer exits early
+    }
+  }
+
+  /** Streams the matching documents' data. See `streamSnapshots()`. */
+  async *stream(): AsyncIterableIterator<TData> {
+    for await (const doc of this.streamSnapshots()) {
+      yield doc.data();
+    }
+  }
+
+  // --- Aggregation ---
+
+  /**
+   * Runs an aggregation query over the matching documents without downloading them.
+   * Each key of the spec maps to an `AggregateField` (count, sum or average).
+   */
+  async aggregate<TSpec extends AggregateSpec>(spec: TSpec): Promise<AggregateSpecData<TSpec>> {
+    const aggregateQuery = this.buildQuery().aggregate(spec);
+    // Use aggregate query's get method, or read through the transaction if bound to one
+    const snapshot = this.transaction ? await this.transaction.get(aggregateQuery) : await aggregateQuery.get();
+    return snapshot.data();
+  }
+
+  /** Counts the matching documents. */
+  async count(): Promise<number> {
+    const { count } = await this.aggregate({ count: AdminAggregateField.count() });
+    return count;
+  }
+
+  /** Sums a numeric field over the matching documents (0 when none match). */
+  async sum(fieldPath: string | AdminFieldPath): Promise<number> {
+    const { sum } = await this.aggregate({ sum: AdminAggregateField.sum(fieldPath) });
+    return sum;
+  }
+
+  /** Averages a numeric field over the matching documents (null when no document has a numeric value). */
+  async average(fieldPath: string | AdminFieldPath): Promise<number | null> {
+    const { average } = await this.aggregate({ average: AdminAggregateField.average(fieldPath) });
+    return average;
+  }
+
+  // --- Pagination ---
+
+  /** Ensures the constraints can be paginated: a stable orderBy and no limit of their own. */
+  protected assertPaginatable(pageSize: number): void {
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new Error(`Page size must be a positive integer, got ${pageSize}`);
+    }
+    if (!this.constraintDefinitions.some(def => def.type === 'orderBy')) {
+      throw new Error('Pagination requires at least one orderBy constraint for stable ordering.');
+    }
+    const limitDef = this.constraintDefinitions.find(def => def.type === 'limit' || def.type === 'limitToLast');
+    if (limitDef) {
+      throw new Error(`Pagination cannot be combined with a '${limitDef.type}' constraint; use the page size instead.`);
+    }
+  }
+
+  /** Fetches a single page, starting after the given snapshot if provided. */
+  async getPage({ pageSize, after }: AdminPageOptions<TData>): Promise<AdminQueryPage<TData>> {
+    this.assertPaginatable(pageSize);
+    // Fetch one extra document to learn whether another page exists
+    let pageBuilder = this.limit(pageSize + 1);
+    if (after) {
+      pageBuilder = pageBuilder.startAfter(after);
+    }
+    const snapshot = await pageBuilder.getSnapshot();
+    const docs = snapshot.docs.slice(0, pageSize);
+    return {
+      data: docs.map(doc => doc.data()),
+      docs,
+      lastSnapshot: docs[docs.length - 1],
+      hasMore: snapshot.docs.length > pageSize,
+    };
+  }
+
+  // --- Page Tokens ---
+
+  /** Hash of the parts of the query that define result positions (path, filters, ordering). */
+  protected queryShapeHash(): string {
+    const shape: Record<string, unknown>[] = [];
+    this.constraintDefinitions.forEach(def => {
+      if (def.type === 'where' || def.type === 'or' || def.type === 'and') {
+        shape.push(filterShape(def));
+      } else if (def.type === 'orderBy' && !isDocumentIdPath(def.fieldPath)) {
+        shape.push({ type: def.type, fieldPath: String(def.fieldPath), directionStr: def.directionStr });
+      }
+    });
+    return stableHash({ path: this.queryPath(), constraints: shape });
+  }
+
+  /** True if the path is a document this query can return, i.e. one directly in the queried collection. */
+  protected isResultDocumentPath(documentPath: string): boolean {
+    const collectionPath = this.queryPath();
+    return documentPath.startsWith(`${collectionPath}/`) && /^[^/]+$/.test(documentPath.slice(collectionPath.length + 1));
+  }
+
+  /** The orderBy constraints in order, excluding any on the document ID. */
+  protected fieldOrderByDefinitions(): OrderByConstraint[] {
+    return this.constraintDefinitions.filter(
+      (def): def is OrderByConstraint => def.type === 'orderBy' && !isDocumentIdPath(def.fieldPath)
+    );
+  }
+
+  /**
+   * Encodes the position of a result document (its orderBy values and path) into an opaque token
+   * that can be handed to a client and later passed to `startAfterPageToken()` on the same query.
+   */
+  createPageToken(snapshot: DocumentSnapshot<TData>, options: PageTokenOptions): string {
+    const orderByDefs = this.fieldOrderByDefinitions();
+    if (orderByDefs.length === 0) {
+      throw new Error('Page tokens require at least one orderBy constraint.');
+    }
+    const cursorValues = orderByDefs.map(def => {
+      const value = snapshot.get(def.fieldPath);
+      if (value === undefined) {
+        throw new Error(`Cannot create a page token: document '${snapshot.ref.path}' has no value for orderBy field '${String(def.fieldPath)}'`);
+      }
+      return encodeValue(value);
+    });
+    return encodePageToken({ v: 1, q: this.queryShapeHash(), c: cursorValues, p: snapshot.ref.path }, options);
+  }
+
+  /**
+   * Resumes the query after the position encoded in a page token.
+   * Throws a PageTokenError if the token is invalid or was created for a differently shaped query.
+   * Adds a document ID orderBy (in the direction of the last orderBy) as tie-breaker if none exists.
+   */
+  startAfterPageToken(token: string, options: PageTokenOptions): this {
+    const payload = decodePageToken(token, options);
+    if (
+      payload.q !== this.queryShapeHash()
+      || payload.c.length !== this.fieldOrderByDefinitions().length
+      || !this.isResultDocumentPath(payload.p)
+    ) {
+      throw new PageTokenError('Page token was created for a different query.');
+    }
+
+    let builder: this = this;
+    if (!this.constraintDefinitions.some(def => def.type === 'orderBy' && isDocumentIdPath(def.fieldPath))) {
+      const orderByDefs = this.fieldOrderByDefinitions();
+      builder = builder.orderBy(AdminFieldPath.documentId(), orderByDefs[orderByDefs.length - 1].directionStr);
+    }
+
+    // Cursor values must follow the orderBy sequence, with the document reference at the document ID position
+    let cursorValues: unknown[];
+    try {
+      const fieldValues = payload.c.map(value => decodeValue(value, this.firestore));
+      cursorValues = builder.constraintDefinitions
+        .filter((def): def is OrderByConstraint => def.type === 'orderBy')
+        .map(def => (isDocumentIdPath(def.fieldPath) ? this.firestore.doc(payload.p) : fieldValues.shift()));
+    } catch {
+      throw new PageTokenError('Page token contains invalid cursor values.');
+    }
+    const [firstValue, ...restValues] = cursorValues;
+    return builder.startAfter(firstValue, ...restValues);
+  }
+
+  /** Iterates over all results page by page. Constraints are validated before the first page is fetched. */
+  paginate(pageSize: number): AsyncIterableIterator<AdminQueryPage<TData>> {
+    this.assertPaginatable(pageSize);
+    return this.iteratePages(pageSize);
+  }
+
+  protected async *iteratePages(pageSize: number): AsyncIterableIterator<AdminQueryPage<TData>> {
+    let after: DocumentSnapshot<TData> | undefined;
+    while (true) {
+      const page = await this.getPage({ pageSize, after });
+      if (page.docs.length > 0) {
+        yield page;
+      }
+      if (!page.hasMore) {
+        return;
+      }
+      after = page.lastSnapshot;
+    }
+  }
 }
\ No newline at end of file
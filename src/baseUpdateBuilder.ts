@@ -4,28 +4,220 @@
 import type {
   DocumentReference,
   DocumentData,
+  Transaction,
+  Precondition,
+  WriteResult,
+  SetOptions,
   // FieldValue is imported as value below
 } from 'firebase-admin/firestore';
 
-// Import admin static FieldValue class
-import { FieldValue as AdminFieldValue } from 'firebase-admin/firestore';
+// Import admin static FieldValue class, and FieldPath for field names that contain dots
+import { FieldValue as AdminFieldValue, FieldPath as AdminFieldPath } from 'firebase-admin/firestore';
+import type { AdminWriteBatch } from './writeBatch';
+import { applySchemaDefaults } from './baseCollection';
+import type { CollectionSchema } from './baseCollection';
+import { encodeFieldValue } from './converter';
+import { isDeleteSentinel, isFieldValueSentinel, isPlainMap, validateFieldUpdate } from './validation';
+import { formatFieldPath, isPlainFieldPath, parseFieldPath, toFieldPathSegments, toUpdateArguments } from './fieldPath';
+import type { AdminFieldPathInput, AdminFieldPathTuple, AdminFieldPathValue, AdminFieldUpdatePairs } from './fieldPath';
+import { isAlreadyExistsError, toPrecondition, withConflictDetection } from './precondition';
+import { diffDocumentData } from './updateDiff';
+import type { AdminDiffOptions } from './updateDiff';
+import type { AdminPreconditionOptions } from './precondition';
+
+/** What `commit()` does when no changes were specified: nothing, log a warning, or throw. */
+export type AdminEmptyCommitPolicy = 'skip' | 'warn' | 'throw';
+
+/** Receives the warnings of the 'warn' empty commit policy. */
+export interface AdminUpdateLogger {
+  warn(message: string): void;
+}
+
+export interface AdminEmptyCommitOptions {
+  emptyCommitPolicy?: AdminEmptyCommitPolicy;
+  logger?: AdminUpdateLogger;
+}
+
+export interface AdminUpdateBuilderOptions extends AdminEmptyCommitOptions {
+  transaction?: Transaction; // Commit through this transaction
+  batch?: AdminWriteBatch; // Queue the commit on this batch
+  schema?: CollectionSchema; // Validate values as they are set
+  applyCodecs?: boolean; // Encode values with the schema's field codecs, as the collection's converter does
+}
+
+/** Outcome of an update builder commit. */
+export type AdminUpdateCommitResult =
+  | { status: 'written'; writeResult: WriteResult }
+  | { status: 'queued' } // Bound to a transaction or batch; applied when they commit
+  | { status: 'noop' }; // No changes were specified
+
+// Used by builders that do not set their own policy or logger
+const emptyCommitDefaults: Required<AdminEmptyCommitOptions> = { emptyCommitPolicy: 'warn', logger: console };
+
+/** Sets the empty commit policy and logger for all update builders that do not set their own. */
+export function setEmptyCommitDefaults(options: AdminEmptyCommitOptions): void {
+  Object.assign(emptyCommitDefaults, options);
+}
+
+export interface AdminUpsertOptions {
+  /** Apply the schema's default values if the document is created. */
+  applyDefaults?: boolean;
+  /**
+   * Whether the document exists, e.g. from a read earlier in the transaction. Required for `applyDefaults`
+   * in a transaction or batch; direct commits find out by trying `create()` first.
+   */
+  exists?: boolean;
+}
+
+/** Copies a map without its FieldValue.delete() sentinels, which `create()` rejects. */
+function withoutDeleteSentinels(data: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const key of Object.keys(data)) {
+    const value = data[key];
+    if (!isDeleteSentinel(value)) {
+      result[key] = isPlainMap(value) ? withoutDeleteSentinels(value) : value;
+    }
+  }
+  return result;
+}
+
+/** Thrown when a field is added to an update that Firestore would reject together with an earlier one. */
+export class FieldPathConflictError extends Error {
+  readonly existingPath: string;
+  readonly path: string;
+
+  constructor(existingPath: string, path: string, documentPath: string, reason: string) {
+    super(`Conflicting updates of '${existingPath}' and '${path}' in document '${documentPath}': ${reason}`);
+    this.name = 'FieldPathConflictError';
+    this.existingPath = existingPath;
+    this.path = path;
+  }
+}
 
 export class AdminBaseUpdateBuilder<TData extends DocumentData> {
   protected _docRef: DocumentReference<TData>; // Use SDK's DocumentReference
-  protected _updateData: Record<string, any> = {}; // Accumulator
+  protected _updateData: Record<string, any> = {}; // Accumulator, keyed by escaped dotted path
+  protected _transaction?: Transaction;
+  protected _batch?: AdminWriteBatch;
+  protected _schema?: CollectionSchema;
+  protected _applyCodecs: boolean;
+  protected _precondition?: Precondition; // Set by withPrecondition()
+  protected _upsert?: AdminUpsertOptions; // Set by withUpsert()
+  protected _emptyCommitPolicy?: AdminEmptyCommitPolicy; // Falls back to setEmptyCommitDefaults()
+  protected _logger?: AdminUpdateLogger;
 
-  constructor(docRef: DocumentReference<TData>) {
+  constructor(docRef: DocumentReference<TData>, options: AdminUpdateBuilderOptions = {}) {
     this._docRef = docRef;
+    this._transaction = options.transaction;
+    this._batch = options.batch;
+    this._schema = options.schema;
+    this._applyCodecs = options.applyCodecs ?? false;
+    this._emptyCommitPolicy = options.emptyCommitPolicy;
+    this._logger = options.logger;
+  }
+
+  /** Returns a copy of this builder that queues its update on the given batch when committed. */
+  withBatch(batch: AdminWriteBatch): this {
+    const newBuilder = Object.create(Object.getPrototypeOf(this));
+    Object.assign(newBuilder, this);
+    newBuilder._batch = batch;
+    return newBuilder;
+  }
+
+  /** Returns a copy of this builder that commits through the given transaction. */
+  withTransaction(transaction: Transaction): this {
+    const newBuilder = Object.create(Object.getPrototypeOf(this));
+    Object.assign(newBuilder, this);
+    newBuilder._transaction = transaction;
+    return newBuilder;
+  }
+
+  /**
+   * Returns a copy of this builder whose commit only applies if the document is unchanged since `lastUpdateTime`,
+   * e.g. `updateTime` from `getWithMeta()`. A direct commit then rejects with an AdminConflictError on conflict.
+   */
+  withPrecondition(options: AdminPreconditionOptions): this {
+    const newBuilder = Object.create(Object.getPrototypeOf(this));
+    Object.assign(newBuilder, this);
+    newBuilder._precondition = toPrecondition(options);
+    return newBuilder;
+  }
+
+  /** Returns a copy of this builder with its own empty commit policy and, optionally, logger. */
+  withEmptyCommitPolicy(policy: AdminEmptyCommitPolicy, logger?: AdminUpdateLogger): this {
+    const newBuilder = Object.create(Object.getPrototypeOf(this));
+    Object.assign(newBuilder, this);
+    newBuilder._emptyCommitPolicy = policy;
+    newBuilder._logger = logger ?? this._logger;
+    return newBuilder;
+  }
+
+  /**
+   * Returns a copy of this builder that commits as a `set()` merging exactly the updated fields, so it behaves
+   * like `update()` but creates the document if it does not exist.
+   * With `applyDefaults`, the schema's default values are only written when the document is created.
+   */
+  withUpsert(options: AdminUpsertOptions = {}): this {
+    const newBuilder = Object.create(Object.getPrototypeOf(this));
+    Object.assign(newBuilder, this);
+    newBuilder._upsert = options;
+    return newBuilder;
   }
 
-  /** Protected method to add an update operation. */
-  protected _set(fieldPath: string, value: any | AdminFieldValue): this {
+  /**
+   * Protected method to add an update operation. Throws a SchemaValidationError if the value breaks the schema.
+   * The path may be a dotted string (quote segments containing dots in backticks), a FieldPath or raw segments.
+   * With `applyCodecs`, the value is encoded with its field's codec first and the stored form is validated.
+   */
+  protected _set(fieldPath: AdminFieldPathInput, value: any | AdminFieldValue): this {
+    const segments = toFieldPathSegments(fieldPath);
+    if (this._schema && this._applyCodecs) {
+      value = encodeFieldValue(this._schema.fields, segments, value, this._docRef.firestore);
+    }
+    if (this._schema) {
+      validateFieldUpdate(this._schema.fields, segments, value);
+    }
+    const path = formatFieldPath(segments);
+    this.checkFieldPathConflicts(path, segments, value);
     const newBuilder = Object.create(Object.getPrototypeOf(this));
     Object.assign(newBuilder, this);
-    newBuilder._updateData = { ...this._updateData, [fieldPath]: value };
+    newBuilder._updateData = { ...this._updateData, [path]: value };
     return newBuilder;
   }
 
+  /**
+   * Throws a FieldPathConflictError if the field overlaps one already in this update: a field and a field
+   * below it, or a FieldValue operation (increment, delete, ...) together with another update of the same field.
+   * Setting a plain value again simply replaces it.
+   */
+  protected checkFieldPathConflicts(path: string, segments: string[], value: unknown): void {
+    for (const existingPath of Object.keys(this._updateData)) {
+      if (existingPath === path) {
+        if (isFieldValueSentinel(value) || isFieldValueSentinel(this._updateData[existingPath])) {
+          throw new FieldPathConflictError(existingPath, path, this._docRef.path, 'a FieldValue operation cannot be combined with another update of the same field');
+        }
+        continue;
+      }
+      const existingSegments = parseFieldPath(existingPath);
+      const shorter = existingSegments.length < segments.length ? existingSegments : segments;
+      const longer = shorter === segments ? existingSegments : segments;
+      if (shorter.every((segment, index) => longer[index] === segment)) {
+        throw new FieldPathConflictError(existingPath, path, this._docRef.path, 'a field cannot be updated together with a field below it');
+      }
+    }
+  }
+
+  /**
+   * Type-checked `_set` for a path given as segments, including dynamic map keys,
+   * e.g. `_setPath(['settings', 'notifications', channelId], true)`.
+   */
+  protected _setPath<TPath extends AdminFieldPathTuple<TData>>(
+    path: TPath,
+    value: AdminFieldPathValue<TData, TPath> | AdminFieldValue
+  ): this {
+    return this._set(path, value);
+  }
+
   // --- FieldValue Helper Implementations ---
 
   protected _getIncrementFieldValue(value: number): AdminFieldValue {
@@ -46,35 +238,172 @@ export class AdminBaseUpdateBuilder<TData extends DocumentData> {
 
   // --- Public methods using the helpers ---
 
-  protected _increment(fieldPath: string, value: number): this {
+  protected _increment(fieldPath: AdminFieldPathInput, value: number): this {
     return this._set(fieldPath, this._getIncrementFieldValue(value));
   }
-  protected _arrayUnion(fieldPath: string, values: any[]): this {
+  protected _arrayUnion(fieldPath: AdminFieldPathInput, values: any[]): this {
     return this._set(fieldPath, this._getArrayUnionFieldValue(values));
   }
-  protected _arrayRemove(fieldPath: string, values: any[]): this {
+  protected _arrayRemove(fieldPath: AdminFieldPathInput, values: any[]): this {
     return this._set(fieldPath, this._getArrayRemoveFieldValue(values));
   }
-  protected _serverTimestamp(fieldPath: string): this {
+  protected _serverTimestamp(fieldPath: AdminFieldPathInput): this {
     return this._set(fieldPath, this._getServerTimestampFieldValue());
   }
-  protected _deleteField(fieldPath: string): this {
+  protected _deleteField(fieldPath: AdminFieldPathInput): this {
     return this._set(fieldPath, this._getDeleteFieldValue());
   }
 
+  /**
+   * Returns a copy of this builder with the minimal updates that turn `before` into `after`:
+   * changed fields are set by their dotted path and removed fields are deleted. With `arrayOperations`,
+   * arrays that only gained or only lost elements use arrayUnion/arrayRemove.
+   */
+  applyDiff(before: TData, after: TData, options: AdminDiffOptions = {}): this {
+    return diffDocumentData(before, after, options).reduce<this>((builder, change) => {
+      switch (change.type) {
+        case 'set': return builder._set(change.path, change.value);
+        case 'delete': return builder._deleteField(change.path);
+        case 'arrayUnion': return builder._arrayUnion(change.path, change.values);
+        case 'arrayRemove': return builder._arrayRemove(change.path, change.values);
+      }
+    }, this);
+  }
+
   // --- Commit Method ---
 
-  async commit(): Promise<FirebaseFirestore.WriteResult> {
-    if (Object.keys(this._updateData).length === 0) {
-      console.warn('Update commit called with no changes specified.');
-      // Admin SDK update returns WriteResult, maybe return a specific "empty" result?
-      // For now, just resolve without error, mimicking no-op.
-      // Consider what the expected return type should be for a no-op commit.
-      return Promise.resolve({} as FirebaseFirestore.WriteResult); // Placeholder
+  /** The accumulated updates as an update map, or as FieldPath/value pairs when a field name needs quoting. */
+  protected buildUpdateData(): Record<string, any> | AdminFieldUpdatePairs {
+    const paths = Object.keys(this._updateData);
+    if (paths.every(isPlainFieldPath)) {
+      return this._updateData;
+    }
+    return paths.map(path => [new AdminFieldPath(...parseFieldPath(path)), this._updateData[path]]);
+  }
+
+  /** The accumulated updates as nested data for a merge set, e.g. `{ 'a.b': 1 }` as `{ a: { b: 1 } }`. */
+  protected buildMergeData(): Record<string, any> {
+    const data: Record<string, any> = {};
+    for (const path of Object.keys(this._updateData)) {
+      const segments = parseFieldPath(path);
+      // No path is below another one (see checkFieldPathConflicts), so every parent is a map created here
+      let parent = data;
+      for (const segment of segments.slice(0, -1)) {
+        parent = parent[segment] ??= {};
+      }
+      parent[segments[segments.length - 1]] = this._updateData[path];
+    }
+    return data;
+  }
+
+  /** Merges the accumulated updates into the document, or queues the merge on the bound transaction or batch. */
+  protected async setMerged(): Promise<WriteResult | undefined> {
+    const mergeData = this.buildMergeData();
+    const fieldPaths = Object.keys(this._updateData).map(parseFieldPath);
+    let options: SetOptions;
+    // The Admin SDK splits nested data keys on dots when applying mergeFields, so those need `merge: true`
+    const dottedPath = fieldPaths.find(segments => segments.slice(1).some(segment => segment.includes('.')));
+    if (!dottedPath) {
+      // mergeFields replaces each updated field as a whole, as update() does; `merge: true` would deep-merge maps
+      options = { mergeFields: fieldPaths.map(segments => new AdminFieldPath(...segments)) };
+    } else if (Object.values(this._updateData).some(isPlainMap)) {
+      throw new Error(
+        `Cannot upsert document '${this._docRef.path}': nested field names containing dots, such as `
+        + `'${formatFieldPath(dottedPath)}', cannot be combined with setting a whole map`
+      );
+    } else {
+      options = { merge: true }; // Same as mergeFields when no map is set as a whole
+    }
+    if (this._transaction) {
+      this._transaction.set(this._docRef, mergeData as Partial<TData>, options);
+      return undefined;
+    }
+    if (this._batch) {
+      this._batch.set(this._docRef, mergeData, options);
+      return undefined;
+    }
+    return this._docRef.set(mergeData as Partial<TData>, options);
+  }
+
+  /** Commits the accumulated updates as a set, see `withUpsert()`. */
+  protected async commitUpsert(): Promise<WriteResult | undefined> {
+    if (this._precondition) {
+      throw new Error(`Cannot upsert document '${this._docRef.path}' with a lastUpdateTime precondition`);
+    }
+    const exists = this._upsert?.exists;
+    if (!this._upsert?.applyDefaults || !this._schema || exists === true) {
+      return this.setMerged();
+    }
+
+    // Defaults are only written when the document is created, so its existence must be known
+    const createData = applySchemaDefaults(this._schema.fields, withoutDeleteSentinels(this.buildMergeData()));
+    if ((this._transaction || this._batch) && exists === undefined) {
+      throw new Error(
+        `Cannot apply schema defaults when upserting document '${this._docRef.path}' in a transaction or batch `
+        + 'without knowing whether it exists; pass `exists` to withUpsert()'
+      );
+    }
+    // create() fails if the document exists after all, instead of overwriting it
+    if (this._transaction) {
+      this._transaction.create(this._docRef, createData as TData);
+      return undefined;
+    }
+    if (this._batch) {
+      this._batch.create(this._docRef, createData);
+      return undefined;
+    }
+    try {
+      return await this._docRef.create(createData as TData);
+    } catch (error) {
+      if (exists === false || !isAlreadyExistsError(error)) {
+        throw error;
+      }
+      return this.setMerged();
+    }
+  }
+
+  /** Applies the update, resolving to `undefined` when it is only queued on a transaction or batch. */
+  protected async commitUpdate(): Promise<WriteResult | undefined> {
+    const updateData = this.buildUpdateData();
+    // The precondition goes last, and only when set
+    const preconditionArgs: Precondition[] = this._precondition ? [this._precondition] : [];
+    if (this._transaction) {
+      if (Array.isArray(updateData)) {
+        this._transaction.update(this._docRef, ...toUpdateArguments(updateData), ...preconditionArgs);
+      } else {
+        this._transaction.update(this._docRef, updateData, ...preconditionArgs);
+      }
+      return undefined;
+    }
+    if (this._batch) {
+      this._batch.update(this._docRef, updateData, ...preconditionArgs);
+      return undefined;
     }
     // Use documentRef's update method
-    return this._docRef.update(this._updateData);
-    // Optional: Clear data after commit
-    // this._updateData = {};
+    const write = Array.isArray(updateData)
+      ? this._docRef.update(...toUpdateArguments(updateData), ...preconditionArgs)
+      : this._docRef.update(updateData, ...preconditionArgs);
+    return withConflictDetection(write, this._docRef.path, this._precondition);
+  }
+
+  /**
+   * Applies the accumulated updates.
+   * Resolves to 'queued' when bound to a transaction or batch, as the update is only applied on their commit.
+   * Without changes, nothing is written and the empty commit policy decides between 'noop', a warning, or throwing.
+   * A failed precondition is only reported as an AdminConflictError for direct commits.
+   */
+  async commit(): Promise<AdminUpdateCommitResult> {
+    if (Object.keys(this._updateData).length === 0) {
+      const policy = this._emptyCommitPolicy ?? emptyCommitDefaults.emptyCommitPolicy;
+      if (policy === 'throw') {
+        throw new Error(`Update of document '${this._docRef.path}' has no changes to commit`);
+      }
+      if (policy === 'warn') {
+        (this._logger ?? emptyCommitDefaults.logger).warn(`Update of document '${this._docRef.path}' has no changes to commit; skipped.`);
+      }
+      return { status: 'noop' };
+    }
+    const writeResult = this._upsert ? await this.commitUpsert() : await this.commitUpdate();
+    return writeResult ? { status: 'written', writeResult } : { status: 'queued' };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,131 @@
+/**
+ * Admin-side helpers for running bulk writes through the Admin SDK BulkWriter.
+ */
+import type {
+  Firestore,
+  DocumentReference,
+  DocumentData,
+  BulkWriterOptions,
+} from 'firebase-admin/firestore';
+
+/** Operations retried by default: ABORTED, RESOURCE_EXHAUSTED and UNAVAILABLE (gRPC status codes). */
+export const DEFAULT_BULK_RETRYABLE_CODES: readonly number[] = [10, 8, 14];
+/** Matches the Admin SDK's own BulkWriter retry limit. */
+export const DEFAULT_BULK_MAX_ATTEMPTS = 10;
+
+export interface AdminBulkRetryPolicy {
+  /** Maximum attempts per operation, including the first one. Defaults to 10. */
+  maxAttempts?: number;
+  /** gRPC status codes worth retrying. Ignored when `shouldRetry` is provided. */
+  retryableCodes?: readonly number[];
+  /** Custom retry decision, called only while attempts remain. */
+  shouldRetry?: (error: FirebaseFirestore.BulkWriterError) => boolean;
+}
+
+export interface AdminBulkWriteProgress {
+  total: number;
+  completed: number;
+  succeeded: number;
+  failed: number;
+}
+
+export interface AdminBulkWriteOptions {
+  retry?: AdminBulkRetryPolicy;
+  /** Passed straight to the BulkWriter (e.g. `{ initialOpsPerSecond, maxOpsPerSecond }`). */
+  throttling?: BulkWriterOptions['throttling'];
+  /** Called every time an operation succeeds or finally fails. */
+  onProgress?: (progress: AdminBulkWriteProgress) => void;
+}
+
+export interface AdminBulkWriteFailure {
+  id: string;
+  error: unknown;
+}
+
+export interface AdminBulkWriteSummary {
+  succeeded: string[]; // Document IDs, in completion order
+  failed: AdminBulkWriteFailure[];
+}
+
+// Internal operation definition structure
+type BulkOperationType = 'set' | 'update' | 'delete';
+interface BaseBulkOperation { type: BulkOperationType; ref: DocumentReference<any>; }
+interface BulkSetOperation extends BaseBulkOperation { type: 'set'; data: DocumentData; }
+interface BulkUpdateOperation extends BaseBulkOperation { type: 'update'; data: Record<string, any>; }
+interface BulkDeleteOperation extends BaseBulkOperation { type: 'delete'; }
+export type BulkOperationDefinition = BulkSetOperation | BulkUpdateOperation | BulkDeleteOperation;
+
+/** Builds the BulkWriter retry callback for a retry policy. */
+function createShouldRetry(policy: AdminBulkRetryPolicy = {}): (error: FirebaseFirestore.BulkWriterError) => boolean {
+  const maxAttempts = policy.maxAttempts ?? DEFAULT_BULK_MAX_ATTEMPTS;
+  const retryableCodes = policy.retryableCodes ?? DEFAULT_BULK_RETRYABLE_CODES;
+  return (error) => {
+    if (error.failedAttempts >= maxAttempts) {
+      return false;
+    }
+    return policy.shouldRetry ? policy.shouldRetry(error) : retryableCodes.includes(error.code);
+  };
+}
+
+/**
+ * Runs the given operations through a new BulkWriter and waits for all of them to settle.
+ * Individual failures, including invalid data the BulkWriter rejects synchronously,
+ * are collected in the summary instead of being thrown.
+ */
+export async function runBulkWrite(
+  firestore: Firestore,
+  operations: BulkOperationDefinition[],
+  options: AdminBulkWriteOptions = {}
+): Promise<AdminBulkWriteSummary> {
+  const summary: AdminBulkWriteSummary = { succeeded: [], failed: [] };
+  if (operations.length === 0) {
+    return summary;
+  }
+
+  const writer = firestore.bulkWriter(options.throttling !== undefined ? { throttling: options.throttling } : undefined);
+  writer.onWriteError(createShouldRetry(options.retry));
+
+  const reportProgress = () => {
+    options.onProgress?.({
+      total: operations.length,
+      completed: summary.succeeded.length + summary.failed.length,
+      succeeded: summary.succeeded.length,
+      failed: summary.failed.length,
+    });
+  };
+
+  const settled: Promise<void>[] = [];
+  try {
+    for (const op of operations) {
+      let write: Promise<FirebaseFirestore.WriteResult>;
+      try {
+        switch (op.type) {
+          case 'set':
+            write = writer.set(op.ref, op.data);
+            break;
+          case 'update':
+            write = writer.update(op.ref, op.data);
+            break;
+          case 'delete':
+            write = writer.delete(op.ref);
+            break;
+          default: throw new Error(`Unsupported bulk operation type: ${(op as any).type}`);
+        }
+      } catch (error) {
+        // The BulkWriter validates data synchronously; the other operations still go through
+        summary.failed.push({ id: op.ref.id, error });
+        reportProgress();
+        continue;
+      }
+      settled.push(write.then(
+        () => { summary.succeeded.push(op.ref.id); reportProgress(); },
+        (error) => { summary.failed.push({ id: op.ref.id, error }); reportProgress(); }
+      ));
+    }
+  } finally {
+    // Always flush the operations queued so far
+    await writer.close();
+  }
+  await Promise.all(settled);
+  return summary;
+}
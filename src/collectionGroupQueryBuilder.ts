@@ -0,0 +1,102 @@
+/**
+ * Admin-side query builder for collection group queries over every sub-collection with a given ID.
+ */
+import type {
+  Firestore,
+  CollectionReference,
+  DocumentData,
+  FirestoreDataConverter,
+} from 'firebase-admin/firestore';
+import { AdminBaseQueryBuilder } from './baseQueryBuilder';
+import { toDocumentResult } from './documentResult';
+import type { AdminDocumentResult } from './documentResult';
+
+/** Placeholder names in a path template, e.g. 'userId' | 'orderId' for 'users/{userId}/orders/{orderId}'. */
+type PathTemplateKeys<TPath extends string> =
+  TPath extends `${string}{${infer Key}}${infer Rest}` ? Key | PathTemplateKeys<Rest> : never;
+
+/** Parent document IDs captured by a parent path template. */
+export type AdminParentIds<TParentPath extends string> =
+  string extends TParentPath ? Record<string, string> : Record<PathTemplateKeys<TParentPath>, string>;
+
+/** A collection group result together with the IDs of its parent documents. */
+export interface AdminCollectionGroupDocument<TData extends DocumentData, TParentPath extends string>
+  extends AdminDocumentResult<TData> {
+  parentIds: AdminParentIds<TParentPath>;
+}
+
+export class AdminCollectionGroupQueryBuilder<
+  TData extends DocumentData,
+  TParentPath extends string = string,
+> extends AdminBaseQueryBuilder<TData> {
+  protected collectionId: string;
+  protected parentPathSegments: string[];
+
+  /**
+   * @param collectionId The sub-collection ID to query across all parents, e.g. 'posts'.
+   * @param parentPath Template of the parent document path, e.g. 'users/{userId}'; placeholders name the parent IDs.
+   * @param converter Optional converter applied to the collection group (e.g. the sub-collection's schema converter).
+   */
+  constructor(
+    firestore: Firestore,
+    collectionId: string,
+    parentPath: TParentPath,
+    converter?: FirestoreDataConverter<TData>
+  ) {
+    const collectionGroup = converter
+      ? firestore.collectionGroup(collectionId).withConverter(converter)
+      : firestore.collectionGroup(collectionId);
+    // A collection group is queried like a collection; only its path differs (see queryPath())
+    super(firestore, collectionGroup as unknown as CollectionReference<TData>);
+    const segments = parentPath.split('/');
+    if (segments.length % 2 !== 0 || segments.some(segment => segment === '')) {
+      throw new Error(`Parent path '${parentPath}' must point to a document, e.g. 'users/{userId}'`);
+    }
+    this.collectionId = collectionId;
+    this.parentPathSegments = segments;
+  }
+
+  protected queryPath(): string {
+    return `${this.parentPathSegments.join('/')}/${this.collectionId}`;
+  }
+
+  protected isResultDocumentPath(documentPath: string): boolean {
+    try {
+      this.parseParentIds(documentPath);
+      return !documentPath.split('/').includes('');
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Parses the parent IDs from the full path of a document in the collection group.
+   * Throws if the path does not match the parent path template.
+   */
+  parseParentIds(documentPath: string): AdminParentIds<TParentPath> {
+    const segments = documentPath.split('/');
+    const template = this.parentPathSegments;
+    const matches = segments.length === template.length + 2
+      && segments[template.length] === this.collectionId
+      && template.every((part, i) => /^\{.+\}$/.test(part) || part === segments[i]);
+    if (!matches) {
+      throw new Error(`Document '${documentPath}' does not match the parent path '${this.queryPath()}/{id}'`);
+    }
+    const parentIds: Record<string, string> = {};
+    template.forEach((part, i) => {
+      if (/^\{.+\}$/.test(part)) {
+        parentIds[part.slice(1, -1)] = segments[i];
+      }
+    });
+    return parentIds as AdminParentIds<TParentPath>;
+  }
+
+  /**
+   * Executes the query and returns each document as in `getDocs()`, together with its parent IDs.
+   * Collection groups match every collection with the ID, so a result outside the parent path throws.
+   */
+  async getWithParentIds(): Promise<AdminCollectionGroupDocument<TData, TParentPath>[]> {
+    const snapshot = await this.getSnapshot();
+    return snapshot.docs.map(doc => ({ ...toDocumentResult(doc), parentIds: this.parseParentIds(doc.ref.path) }));
+  }
+}
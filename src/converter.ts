@@ -0,0 +1,107 @@
+/**
+ * Schema-driven FirestoreDataConverter for typed reads and writes.
+ * Field values are transformed by the `codec` declared on their FieldSchema.
+ */
+import type {
+  Firestore,
+  DocumentData,
+  DocumentReference,
+  FirestoreDataConverter,
+  QueryDocumentSnapshot,
+} from 'firebase-admin/firestore';
+import { Timestamp as AdminTimestamp } from 'firebase-admin/firestore';
+import type { CollectionSchema, FieldSchema } from './baseCollection';
+import { isFieldValueSentinel, isPlainMap, resolveFieldSchema } from './validation';
+
+/** Transforms a field value between its application and stored (Firestore) representation. */
+export interface FieldCodec<TApp = any, TStored = any> {
+  toFirestore(value: TApp, firestore: Firestore): TStored;
+  fromFirestore(value: TStored, firestore: Firestore): TApp;
+}
+
+/** Reads Timestamps as JS Dates and writes Dates back as Timestamps. */
+export const timestampDateCodec: FieldCodec<Date, AdminTimestamp> = {
+  toFirestore: (value) => AdminTimestamp.fromDate(value),
+  fromFirestore: (value) => value.toDate(),
+};
+
+/** Reads DocumentReferences as their ID and writes IDs back as references into the given collection path. */
+export function referenceIdCodec(collectionPath: string): FieldCodec<string, DocumentReference> {
+  return {
+    toFirestore: (value, firestore) => firestore.collection(collectionPath).doc(value),
+    fromFirestore: (value) => value.id,
+  };
+}
+
+type CodecDirection = 'toFirestore' | 'fromFirestore';
+
+/** Transforms a single value according to its field definition. Null, undefined and sentinels pass through. */
+function transformValue(fieldDef: FieldSchema, value: any, direction: CodecDirection, firestore: Firestore): any {
+  if (value === null || value === undefined || isFieldValueSentinel(value)) {
+    return value;
+  }
+  if (fieldDef.codec) {
+    return fieldDef.codec[direction](value, firestore);
+  }
+  if (fieldDef.values && isPlainMap(value)) {
+    const transformed: Record<string, any> = {};
+    for (const key of Object.keys(value)) {
+      const entryDef = fieldDef.fields?.[key] ?? fieldDef.values;
+      transformed[key] = transformValue(entryDef, value[key], direction, firestore);
+    }
+    return transformed;
+  }
+  if (fieldDef.fields && isPlainMap(value)) {
+    return transformFields(fieldDef.fields, value, direction, firestore);
+  }
+  if (fieldDef.items && Array.isArray(value)) {
+    return value.map(item => transformValue(fieldDef.items!, item, direction, firestore));
+  }
+  return value;
+}
+
+/** Transforms every field described by the schema; other keys are copied unchanged. */
+function transformFields(
+  fields: Record<string, FieldSchema>,
+  data: Record<string, any>,
+  direction: CodecDirection,
+  firestore: Firestore
+): Record<string, any> {
+  const result: Record<string, any> = { ...data };
+  for (const fieldName in fields) {
+    if (fieldName in result) {
+      result[fieldName] = transformValue(fields[fieldName], result[fieldName], direction, firestore);
+    }
+  }
+  return result;
+}
+
+/**
+ * Encodes a value written to a single field path, e.g. by an update builder, with the codecs of its field definition.
+ * Firestore does not run converters on `update()`, so update builders encode values themselves.
+ */
+export function encodeFieldValue(
+  fields: Record<string, FieldSchema>,
+  fieldPath: ReadonlyArray<string>,
+  value: any,
+  firestore: Firestore
+): any {
+  const fieldDef = resolveFieldSchema(fields, fieldPath);
+  return fieldDef ? transformValue(fieldDef, value, 'toFirestore', firestore) : value;
+}
+
+/** Builds a FirestoreDataConverter that applies the schema's field codecs in both directions. */
+export function createSchemaConverter<TData extends DocumentData>(
+  schema: CollectionSchema,
+  firestore: Firestore
+): FirestoreDataConverter<TData> {
+  return {
+    // Partial (merge) writes go through the same path: only present keys are transformed
+    toFirestore(modelObject: any): any {
+      return transformFields(schema.fields, modelObject, 'toFirestore', firestore);
+    },
+    fromFirestore(snapshot: QueryDocumentSnapshot): TData {
+      return transformFields(schema.fields, snapshot.data(), 'fromFirestore', firestore) as TData;
+    },
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Typed read results that keep the document ID, reference and metadata alongside the data.
+ */
+import type { DocumentData, DocumentReference, DocumentSnapshot, Timestamp } from 'firebase-admin/firestore';
+
+export interface AdminDocumentResult<TData extends DocumentData> {
+  id: string;
+  ref: DocumentReference<TData>;
+  data: TData;
+  createTime: Timestamp;
+  updateTime: Timestamp;
+  readTime: Timestamp;
+}
+
+/** Maps a snapshot of an existing document to its result shape. */
+export function toDocumentResult<TData extends DocumentData>(snapshot: DocumentSnapshot<TData>): AdminDocumentResult<TData> {
+  return {
+    id: snapshot.id,
+    ref: snapshot.ref,
+    data: snapshot.data() as TData,
+    createTime: snapshot.createTime!, // Always set for existing documents
+    updateTime: snapshot.updateTime!,
+    readTime: snapshot.readTime,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Field path parsing, escaping and typing for update builders.
+ *
+ * Dotted strings follow Firestore's escaping rules: a segment containing dots or other special
+ * characters is quoted in backticks, e.g. 'prefs.`theme.dark`', with `\` escaping backticks and backslashes.
+ */
+import type {
+  DocumentReference,
+  FieldPath,
+  FieldValue,
+  GeoPoint,
+  Timestamp,
+} from 'firebase-admin/firestore';
+
+/** A field path as a dotted string, a FieldPath, or its raw (unescaped) segments. */
+export type AdminFieldPathInput = string | FieldPath | ReadonlyArray<string>;
+
+const UNQUOTED_SEGMENT = /^[a-zA-Z_][a-zA-Z_0-9]*$/;
+const RESERVED_CHARACTERS = /[~*/[\]`]/;
+
+/** Parses a dotted field path into its segments, unquoting backtick-escaped segments. */
+export function parseFieldPath(path: string): string[] {
+  const segments: string[] = [];
+  let segment = '';
+  let quoted = false; // Inside backticks
+  let wasQuoted = false; // Current segment was quoted
+  for (let i = 0; i < path.length; i++) {
+    const char = path[i];
+    if (quoted) {
+      if (char === '\\' && i + 1 < path.length) {
+        segment += path[++i];
+      } else if (char === '`') {
+        quoted = false;
+      } else {
+        segment += char;
+      }
+    } else if (char === '`' && segment === '' && !wasQuoted) {
+      quoted = true;
+      wasQuoted = true;
+    } else if (char === '.') {
+      pushSegment();
+    } else if (wasQuoted) {
+      throw new Error(`Invalid field path '${path}': unexpected '${char}' after a quoted segment`);
+    } else if (RESERVED_CHARACTERS.test(char)) {
+      throw new Error(`Invalid field path '${path}': quote segments containing '${char}' in backticks`);
+    } else {
+      segment += char;
+    }
+  }
+  if (quoted) {
+    throw new Error(`Invalid field path '${path}': unterminated backtick`);
+  }
+  pushSegment();
+  return segments;
+
+  function pushSegment() {
+    if (segment === '' && !wasQuoted) {
+      throw new Error(`Invalid field path '${path}': empty segment`);
+    }
+    segments.push(segment);
+    segment = '';
+    wasQuoted = false;
+  }
+}
+
+/** Formats segments as a dotted field path, quoting segments that are not plain identifiers (as Firestore does). */
+export function formatFieldPath(segments: ReadonlyArray<string>): string {
+  return segments
+    .map(segment => (UNQUOTED_SEGMENT.test(segment) ? segment : `\`${segment.replace(/\\/g, '\\\\').replace(/`/g, '\\`')}\``))
+    .join('.');
+}
+
+/** Resolves any field path input to its segments, validating that none is empty. */
+export function toFieldPathSegments(fieldPath: AdminFieldPathInput): string[] {
+  if (typeof fieldPath === 'string') {
+    return parseFieldPath(fieldPath);
+  }
+  // FieldPath keeps its segments internally; duck-typed so a mocked firebase-admin still works
+  const segments: string[] = Array.isArray(fieldPath) ? [...fieldPath] : [...(fieldPath as any).segments];
+  if (segments.length === 0 || segments.some(segment => typeof segment !== 'string' || segment === '')) {
+    throw new Error(`Invalid field path [${segments.map(segment => JSON.stringify(segment)).join(', ')}]: segments must be non-empty strings`);
+  }
+  return segments;
+}
+
+/** True if the dotted path needs no quoting, so Firestore parses it into the same segments. */
+export function isPlainFieldPath(path: string): boolean {
+  return path.split('.').every(segment => UNQUOTED_SEGMENT.test(segment));
+}
+
+/** Field/value pairs for the variadic `update(field, value, ...)` form, needed when field names contain dots. */
+export type AdminFieldUpdatePairs = Array<[FieldPath, unknown]>;
+
+/** Flattens field/value pairs into the arguments of the variadic `update()` form. */
+export function toUpdateArguments(pairs: AdminFieldUpdatePairs): [FieldPath, unknown, ...unknown[]] {
+  const [[firstField, firstValue], ...rest] = pairs;
+  const moreFieldsAndValues: unknown[] = [];
+  rest.forEach(([field, value]) => moreFieldsAndValues.push(field, value));
+  return [firstField, firstValue, ...moreFieldsAndValues];
+}
+
+// --- Typed paths ---
+
+// Values not descended into when building typed paths
+type FieldPathLeaf =
+  | string | number | boolean | bigint | symbol | null | undefined
+  | Date | Timestamp | GeoPoint | FieldValue | DocumentReference<any> | ReadonlyArray<unknown>;
+
+/**
+ * Every field path of T as a tuple of segments, e.g. ['settings'] | ['settings', 'notifications', string]
+ * for `settings: { notifications: Record<string, boolean> }`. Map keys stay `string` for dynamic keys.
+ */
+export type AdminFieldPathTuple<T, TDepth extends unknown[] = []> =
+  TDepth['length'] extends 8 ? never
+    : T extends FieldPathLeaf ? never
+    : {
+      [K in keyof T & string]-?: [K] | [K, ...AdminFieldPathTuple<NonNullable<T[K]>, [...TDepth, unknown]>];
+    }[keyof T & string];
+
+/** The value type at a tuple field path of T. */
+export type AdminFieldPathValue<T, TPath extends ReadonlyArray<string>> =
+  TPath extends readonly [infer K, ...infer Rest extends string[]]
+    ? K extends keyof NonNullable<T>
+      ? Rest extends [] ? NonNullable<T>[K] : AdminFieldPathValue<NonNullable<T>[K], Rest>
+      : never
+    : never;
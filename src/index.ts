@@ -5,7 +5,19 @@
 
 export * from './baseCollection';
 export * from './baseQueryBuilder';
+export * from './collectionGroupQueryBuilder';
 export * from './baseUpdateBuilder';
+export * from './writeBatch';
+export * from './bulkWriter';
+export * from './validation';
+export * from './converter';
+export * from './serialization';
+export * from './pageToken';
+export * from './documentResult';
+export * from './schemaRegistry';
+export * from './fieldPath';
+export * from './precondition';
+export * from './updateDiff';
 
 // Re-export core types for convenience? Optional.
 // export * from '@shtse8/fireschema-core-types';
\ No newline at end of file
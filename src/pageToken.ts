@@ -0,0 +1,72 @@
+/**
+ * Opaque, tamper-evident page tokens for resuming queries from HTTP clients.
+ *
+ * A token is `<base64url payload>.<base64url signature>`, signed with an HMAC-SHA256 so clients cannot
+ * forge them. Unsigned tokens must be asked for explicitly: their plain SHA-256 digest only detects
+ * corrupted tokens, as anyone can recompute it for an edited payload.
+ */
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type { EncodedValue } from './serialization';
+
+export interface PageTokenOptions {
+  /** Secret used to sign tokens with HMAC-SHA256. Required unless `unsigned` is set. */
+  secret?: string;
+  /** Allow tokens without a secret. They only detect corruption and can be forged; never give them to untrusted clients. */
+  unsigned?: boolean;
+}
+
+/** Decoded contents of a page token. */
+export interface PageTokenPayload {
+  v: 1; // Format version
+  q: string; // Query shape hash
+  c: EncodedValue[]; // orderBy field values of the cursor document
+  p: string; // Full path of the cursor document
+}
+
+/** Thrown when a page token is malformed, has been tampered with, or belongs to a different query. */
+export class PageTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PageTokenError';
+  }
+}
+
+function sign(encodedPayload: string, options: PageTokenOptions): Buffer {
+  if (options.secret === undefined && !options.unsigned) {
+    throw new Error('Page tokens must be signed: pass a secret, or `unsigned: true` for tokens that only detect corruption.');
+  }
+  return options.secret !== undefined
+    ? createHmac('sha256', options.secret).update(encodedPayload).digest()
+    : createHash('sha256').update(encodedPayload).digest();
+}
+
+/** Encodes and signs a page token payload. */
+export function encodePageToken(payload: PageTokenPayload, options: PageTokenOptions): string {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encodedPayload}.${sign(encodedPayload, options).toString('base64url')}`;
+}
+
+/** Verifies and decodes a page token, throwing a PageTokenError if it is invalid. */
+export function decodePageToken(token: string, options: PageTokenOptions): PageTokenPayload {
+  const [encodedPayload, encodedSignature, ...rest] = token.split('.');
+  if (!encodedPayload || !encodedSignature || rest.length > 0) {
+    throw new PageTokenError('Malformed page token.');
+  }
+
+  const expectedSignature = sign(encodedPayload, options);
+  const actualSignature = Buffer.from(encodedSignature, 'base64url');
+  if (actualSignature.length !== expectedSignature.length || !timingSafeEqual(actualSignature, expectedSignature)) {
+    throw new PageTokenError('Page token signature does not match.');
+  }
+
+  let payload: PageTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    throw new PageTokenError('Malformed page token.');
+  }
+  if (payload?.v !== 1 || typeof payload.q !== 'string' || !Array.isArray(payload.c) || typeof payload.p !== 'string') {
+    throw new PageTokenError('Unsupported page token format.');
+  }
+  return payload;
+}
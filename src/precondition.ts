@@ -0,0 +1,59 @@
+/**
+ * Optimistic concurrency: `lastUpdateTime` preconditions on writes, and the error raised when they fail.
+ */
+import type { Precondition, Timestamp } from 'firebase-admin/firestore';
+
+/** Only apply the write if the document was last updated at exactly this time, e.g. `updateTime` from `getWithMeta()`. */
+export interface AdminPreconditionOptions {
+  lastUpdateTime?: Timestamp;
+}
+
+// gRPC status codes Firestore returns when a write precondition does not hold
+const ALREADY_EXISTS = 6; // create() of an existing document
+const FAILED_PRECONDITION = 9;
+
+/** Thrown when a write's `lastUpdateTime` precondition fails because the document changed since it was read. */
+export class AdminConflictError extends Error {
+  readonly path: string;
+  readonly lastUpdateTime: Timestamp;
+  readonly cause: unknown;
+
+  constructor(path: string, lastUpdateTime: Timestamp, cause: unknown) {
+    super(`Document '${path}' was modified after ${lastUpdateTime.toDate().toISOString()}; read it again and retry.`);
+    this.name = 'AdminConflictError';
+    this.path = path;
+    this.lastUpdateTime = lastUpdateTime;
+    this.cause = cause;
+  }
+}
+
+/** The Admin SDK precondition for the options, or undefined if there is none. */
+export function toPrecondition(options: AdminPreconditionOptions = {}): Precondition | undefined {
+  return options.lastUpdateTime ? { lastUpdateTime: options.lastUpdateTime } : undefined;
+}
+
+/** True if the error is Firestore's FAILED_PRECONDITION. */
+export function isFailedPreconditionError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as any).code === FAILED_PRECONDITION;
+}
+
+/** True if the error is Firestore's ALREADY_EXISTS, e.g. from `create()`. */
+export function isAlreadyExistsError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as any).code === ALREADY_EXISTS;
+}
+
+/** Awaits a direct write, turning a failed precondition into an AdminConflictError. */
+export async function withConflictDetection<T>(
+  write: Promise<T>,
+  path: string,
+  precondition: Precondition | undefined
+): Promise<T> {
+  try {
+    return await write;
+  } catch (error) {
+    if (precondition?.lastUpdateTime && isFailedPreconditionError(error)) {
+      throw new AdminConflictError(path, precondition.lastUpdateTime, error);
+    }
+    throw error;
+  }
+}
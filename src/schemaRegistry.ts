@@ -0,0 +1,102 @@
+/**
+ * Registry of the collection schema tree, resolving raw Firestore paths to typed collection instances.
+ */
+import type { Firestore } from 'firebase-admin/firestore';
+import type { AdminBaseCollectionRef, CollectionSchema } from './baseCollection';
+
+/**
+ * A top-level collection. Generated root classes hard-code their collection ID, so they are built
+ * by a factory, e.g. `{ schema: usersSchema, create: (firestore) => new UsersCollection(firestore, usersSchema) }`.
+ */
+export interface AdminRootCollectionDefinition {
+  schema?: CollectionSchema; // Must be the schema the created collection uses; sub-collections are found through it
+  create: (firestore: Firestore) => AdminBaseCollectionRef<any, any>;
+}
+
+export interface AdminResolvedPath<TCollection extends AdminBaseCollectionRef<any, any>> {
+  collection: TCollection; // Instance of the registered class for the innermost collection
+  collectionPath: string;
+  documentId?: string; // Set when the path points to a document
+  /** IDs of the parent documents keyed by their collection ID, e.g. `{ users: 'u1', orders: 'o9' }`. */
+  parentIds: Record<string, string>;
+}
+
+// Full resource names, e.g. 'projects/p/databases/(default)/documents/users/u1'
+const RESOURCE_NAME_PREFIX = /^projects\/[^/]+\/databases\/[^/]+\/documents\//;
+
+export class AdminSchemaRegistry {
+  protected firestore: Firestore;
+  protected rootCollections: Record<string, AdminRootCollectionDefinition>;
+
+  /** @param rootCollections Top-level collections by collection ID; nested ones are found through their schemas. */
+  constructor(firestore: Firestore, rootCollections: Record<string, AdminRootCollectionDefinition>) {
+    this.firestore = firestore;
+    this.rootCollections = rootCollections;
+  }
+
+  /**
+   * Resolves a document or collection path (optionally a full resource name) against the schema tree.
+   * Throws if a collection along the path is not registered or declared as a sub-collection.
+   */
+  resolve<TCollection extends AdminBaseCollectionRef<any, any> = AdminBaseCollectionRef<any, any>>(
+    path: string
+  ): AdminResolvedPath<TCollection> {
+    const segments = path.replace(RESOURCE_NAME_PREFIX, '').replace(/^\/+|\/+$/g, '').split('/');
+    if (segments.some(segment => segment === '')) {
+      throw new Error(`Invalid Firestore path '${path}'`);
+    }
+
+    const [rootId] = segments;
+    const rootDefinition = this.rootCollections[rootId];
+    if (!rootDefinition) {
+      throw new Error(`Path '${path}' does not match the schema: unknown root collection '${rootId}'`);
+    }
+    let collection = rootDefinition.create(this.firestore);
+    if (collection.ref.path !== rootId) {
+      throw new Error(`Root collection '${rootId}' was registered with a factory that creates collection '${collection.ref.path}'`);
+    }
+    let schema = rootDefinition.schema;
+    const parentIds: Record<string, string> = {};
+
+    // Walk (document ID, sub-collection ID) pairs below the root collection
+    for (let i = 1; i + 1 < segments.length; i += 2) {
+      const [parentCollectionId, parentId, subCollectionId] = [segments[i - 1], segments[i], segments[i + 1]];
+      if (!schema?.subCollections?.[subCollectionId]) {
+        throw new Error(`Path '${path}' does not match the schema: '${subCollectionId}' is not a sub-collection of '${parentCollectionId}'`);
+      }
+      parentIds[parentCollectionId] = parentId;
+      collection = collection.subCollection(parentId, subCollectionId);
+      schema = schema.subCollections[subCollectionId].schema;
+    }
+
+    const isDocumentPath = segments.length % 2 === 0;
+    return {
+      collection: collection as TCollection,
+      collectionPath: collection.ref.path,
+      documentId: isDocumentPath ? segments[segments.length - 1] : undefined,
+      parentIds,
+    };
+  }
+
+  /** Resolves a path that must point to a document. */
+  resolveDocument<TCollection extends AdminBaseCollectionRef<any, any> = AdminBaseCollectionRef<any, any>>(
+    path: string
+  ): AdminResolvedPath<TCollection> & { documentId: string } {
+    const resolved = this.resolve<TCollection>(path);
+    if (resolved.documentId === undefined) {
+      throw new Error(`Path '${path}' points to a collection, not a document`);
+    }
+    return resolved as AdminResolvedPath<TCollection> & { documentId: string };
+  }
+
+  /** Resolves a path that must point to a collection. */
+  resolveCollection<TCollection extends AdminBaseCollectionRef<any, any> = AdminBaseCollectionRef<any, any>>(
+    path: string
+  ): AdminResolvedPath<TCollection> {
+    const resolved = this.resolve<TCollection>(path);
+    if (resolved.documentId !== undefined) {
+      throw new Error(`Path '${path}' points to a document, not a collection`);
+    }
+    return resolved;
+  }
+}
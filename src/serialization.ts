@@ -0,0 +1,110 @@
+/**
+ * JSON-safe encoding of Firestore values (Timestamps, references, field paths, ...) and stable hashing.
+ */
+import type { Firestore } from 'firebase-admin/firestore';
+import {
+  FieldPath as AdminFieldPath,
+  GeoPoint as AdminGeoPoint,
+  Timestamp as AdminTimestamp,
+} from 'firebase-admin/firestore';
+import { createHash } from 'crypto';
+
+/** Tagged JSON form of values that plain JSON cannot represent. */
+export type EncodedValue =
+  | null | boolean | number | string
+  | EncodedValue[]
+  | { __type: 'map'; value: Record<string, EncodedValue> }
+  | { __type: 'timestamp'; seconds: number; nanoseconds: number }
+  | { __type: 'date'; iso: string }
+  | { __type: 'reference'; path: string }
+  | { __type: 'geopoint'; latitude: number; longitude: number }
+  | { __type: 'fieldPath'; segments: string[] }
+  | { __type: 'number'; value: 'NaN' | 'Infinity' | '-Infinity' };
+
+/** Encodes a Firestore value to its tagged JSON form. */
+export function encodeValue(value: unknown): EncodedValue {
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return value as null | boolean | string;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : { __type: 'number', value: String(value) as 'NaN' | 'Infinity' | '-Infinity' };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeValue);
+  }
+  if (value instanceof Date) {
+    return { __type: 'date', iso: value.toISOString() };
+  }
+  if (value instanceof AdminTimestamp) {
+    return { __type: 'timestamp', seconds: value.seconds, nanoseconds: value.nanoseconds };
+  }
+  if (value instanceof AdminGeoPoint) {
+    return { __type: 'geopoint', latitude: value.latitude, longitude: value.longitude };
+  }
+  if (value instanceof AdminFieldPath) {
+    return { __type: 'fieldPath', segments: [...(value as any).segments] };
+  }
+  if (typeof value === 'object' && typeof (value as any).path === 'string' && typeof (value as any).collection === 'function') {
+    return { __type: 'reference', path: (value as any).path };
+  }
+  if (typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const encodedMap: Record<string, EncodedValue> = {};
+    for (const key of Object.keys(value as object)) {
+      encodedMap[key] = encodeValue((value as Record<string, unknown>)[key]);
+    }
+    return { __type: 'map', value: encodedMap };
+  }
+  throw new Error(`Cannot serialize value of type ${typeof value === 'object' ? (value as object).constructor?.name : typeof value}`);
+}
+
+/** Decodes a tagged JSON value. References are rebuilt against the given Firestore instance. */
+export function decodeValue(encoded: EncodedValue, firestore: Firestore): any {
+  if (encoded === null || typeof encoded !== 'object') {
+    return encoded;
+  }
+  if (Array.isArray(encoded)) {
+    return encoded.map(item => decodeValue(item, firestore));
+  }
+  switch (encoded.__type) {
+    case 'map': {
+      const decodedMap: Record<string, unknown> = {};
+      for (const key of Object.keys(encoded.value)) {
+        decodedMap[key] = decodeValue(encoded.value[key], firestore);
+      }
+      return decodedMap;
+    }
+    case 'timestamp':
+      return new AdminTimestamp(encoded.seconds, encoded.nanoseconds);
+    case 'date':
+      return new Date(encoded.iso);
+    case 'reference':
+      return firestore.doc(encoded.path);
+    case 'geopoint':
+      return new AdminGeoPoint(encoded.latitude, encoded.longitude);
+    case 'fieldPath':
+      return new AdminFieldPath(...encoded.segments);
+    case 'number':
+      return Number(encoded.value);
+    default: throw new Error(`Unsupported encoded value type: ${(encoded as any).__type}`);
+  }
+}
+
+/** JSON.stringify with object keys sorted, so equal values always produce the same string. */
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  const entries = Object.keys(value as object)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+/** Hex SHA-256 digest of the stable JSON form of a value. */
+export function stableHash(value: unknown): string {
+  return createHash('sha256').update(stableStringify(value)).digest('hex');
+}
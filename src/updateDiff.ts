@@ -0,0 +1,108 @@
+/**
+ * Minimal field changes between two versions of a document, for building updates from edited objects.
+ */
+import type { DocumentData } from 'firebase-admin/firestore';
+import { isPlainMap } from './validation';
+
+export interface AdminDiffOptions {
+  /** Emit arrayUnion/arrayRemove when an array only gained or only lost elements, instead of replacing it. */
+  arrayOperations?: boolean;
+}
+
+/** One change to a field, given by its (unescaped) path segments. */
+export type AdminFieldChange =
+  | { type: 'set'; path: string[]; value: unknown }
+  | { type: 'delete'; path: string[] }
+  | { type: 'arrayUnion' | 'arrayRemove'; path: string[]; values: unknown[] };
+
+/** Deep equality of Firestore values; bytes compare by content, Timestamps, GeoPoints, references and sentinels with `isEqual()`. */
+export function isEqualValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, index) => isEqualValue(item, b[index]));
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  if (a instanceof Uint8Array || b instanceof Uint8Array) {
+    // Bytes (Buffer or Uint8Array) compare by content and are replaced whole
+    return a instanceof Uint8Array && b instanceof Uint8Array && Buffer.compare(a, b) === 0;
+  }
+  if (isPlainMap(a) && isPlainMap(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => key in b && isEqualValue(a[key], b[key]));
+  }
+  // Firestore value types; isEqual() also checks the other value's type
+  return Object.getPrototypeOf(a) === Object.getPrototypeOf(b) && typeof (a as any).isEqual === 'function' && (a as any).isEqual(b);
+}
+
+/** The elements to arrayUnion/arrayRemove to turn `before` into `after`, or undefined if a single operation cannot. */
+function diffArray(before: unknown[], after: unknown[]): { type: 'arrayUnion' | 'arrayRemove'; values: unknown[] } | undefined {
+  const contains = (array: unknown[], value: unknown) => array.some(item => isEqualValue(item, value));
+
+  // arrayUnion appends elements that are not present yet, in order
+  const added = after.slice(before.length);
+  if (
+    added.length > 0
+    && isEqualValue(after.slice(0, before.length), before)
+    && added.every((value, index) => !contains(before, value) && !contains(added.slice(0, index), value))
+  ) {
+    return { type: 'arrayUnion', values: added };
+  }
+
+  // arrayRemove removes every occurrence of each element
+  const removed = before.filter((value, index) => !contains(after, value) && !contains(before.slice(0, index), value));
+  if (removed.length > 0 && isEqualValue(before.filter(value => !contains(removed, value)), after)) {
+    return { type: 'arrayRemove', values: removed };
+  }
+  return undefined;
+}
+
+function diffMaps(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  parentPath: string[],
+  options: AdminDiffOptions,
+  changes: AdminFieldChange[]
+): void {
+  for (const key of Object.keys(after)) {
+    const path = [...parentPath, key];
+    const beforeValue = before[key];
+    const afterValue = after[key];
+    if (afterValue === undefined || isEqualValue(beforeValue, afterValue)) {
+      continue; // Unchanged, or removed (handled below)
+    }
+    if (isPlainMap(beforeValue) && isPlainMap(afterValue)) {
+      diffMaps(beforeValue, afterValue, path, options, changes);
+      continue;
+    }
+    const arrayChange = options.arrayOperations && Array.isArray(beforeValue) && Array.isArray(afterValue)
+      ? diffArray(beforeValue, afterValue)
+      : undefined;
+    changes.push(arrayChange ? { ...arrayChange, path } : { type: 'set', path, value: afterValue });
+  }
+  for (const key of Object.keys(before)) {
+    if (before[key] !== undefined && after[key] === undefined) {
+      changes.push({ type: 'delete', path: [...parentPath, key] });
+    }
+  }
+}
+
+/**
+ * The minimal field changes that turn `before` into `after`: changed fields are set at their deepest
+ * changed path, and fields missing (or undefined) in `after` are deleted.
+ */
+export function diffDocumentData(
+  before: DocumentData,
+  after: DocumentData,
+  options: AdminDiffOptions = {}
+): AdminFieldChange[] {
+  const changes: AdminFieldChange[] = [];
+  diffMaps(before, after, [], options, changes);
+  return changes;
+}
@@ -0,0 +1,236 @@
+/**
+ * Runtime validation of document data against a CollectionSchema's FieldSchema definitions.
+ */
+import { FieldValue as AdminFieldValue } from 'firebase-admin/firestore';
+import type { FieldSchema } from './baseCollection';
+import { formatFieldPath } from './fieldPath';
+
+export interface SchemaValidationIssue {
+  path: string; // Field path, e.g. 'address.city' or 'tags[2]'
+  rule: 'required' | 'type' | 'enum' | 'min' | 'max' | 'pattern';
+  message: string;
+}
+
+/** Thrown before any write is sent when data does not match the collection schema. */
+export class SchemaValidationError extends Error {
+  readonly issues: SchemaValidationIssue[];
+
+  constructor(issues: SchemaValidationIssue[]) {
+    super(`Schema validation failed:\n${issues.map(issue => `  - ${issue.path}: ${issue.message}`).join('\n')}`);
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+// --- Value classification ---
+// Duck-typed so values created by another copy of firebase-admin are still recognised.
+
+function isTimestampLike(value: any): boolean {
+  return typeof value.toMillis === 'function' && typeof value.seconds === 'number';
+}
+function isGeoPointLike(value: any): boolean {
+  return typeof value.latitude === 'number' && typeof value.longitude === 'number';
+}
+function isDocumentReferenceLike(value: any): boolean {
+  return typeof value.path === 'string' && typeof value.collection === 'function';
+}
+/** True for FieldValue sentinels (serverTimestamp, increment, delete, ...). */
+export function isFieldValueSentinel(value: unknown): boolean {
+  return typeof value === 'object' && value !== null
+    && typeof (value as any).isEqual === 'function'
+    && !isTimestampLike(value) && !isGeoPointLike(value) && !isDocumentReferenceLike(value);
+}
+/** True for the FieldValue.delete() sentinel. */
+export function isDeleteSentinel(value: unknown): boolean {
+  return isFieldValueSentinel(value) && (value as AdminFieldValue).isEqual(AdminFieldValue.delete());
+}
+/** True for plain objects stored as Firestore maps (not Dates, Buffers, sentinels or other Firestore value types). */
+export function isPlainMap(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return (prototype === Object.prototype || prototype === null)
+    && !isFieldValueSentinel(value) && !isTimestampLike(value) && !isGeoPointLike(value) && !isDocumentReferenceLike(value);
+}
+
+function matchesType(fieldDef: FieldSchema, value: any): boolean {
+  switch (fieldDef.type) {
+    case undefined:
+    case 'any':
+      return true;
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'timestamp':
+      return value instanceof Date || (typeof value === 'object' && isTimestampLike(value));
+    case 'map':
+      return isPlainMap(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'reference':
+      return typeof value === 'object' && isDocumentReferenceLike(value);
+    case 'geopoint':
+      return typeof value === 'object' && isGeoPointLike(value);
+    default: throw new Error(`Unsupported field schema type: ${(fieldDef as any).type}`);
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+// --- Validation ---
+
+// In a merge write, the field paths (relative to the current map) whose values replace the stored ones whole;
+// missing fields are not reported anywhere else. Undefined for values that are written whole.
+type MergePaths = ReadonlyArray<ReadonlyArray<string>> | undefined;
+
+/** The merge paths below a key of a merged map, or undefined if the key's value is written whole. */
+function mergePathsBelow(mergePaths: MergePaths, key: string): MergePaths {
+  if (!mergePaths || mergePaths.some(segments => segments.length === 1 && segments[0] === key)) {
+    return undefined;
+  }
+  return mergePaths.filter(segments => segments.length > 1 && segments[0] === key).map(segments => segments.slice(1));
+}
+
+/** Validates a single (present) value against its field definition, collecting issues. */
+function validateValue(
+  fieldDef: FieldSchema,
+  value: any,
+  path: string,
+  issues: SchemaValidationIssue[],
+  mergePaths?: MergePaths
+): void {
+  if (isFieldValueSentinel(value)) {
+    if (fieldDef.required && isDeleteSentinel(value)) {
+      issues.push({ path, rule: 'required', message: 'required field cannot be deleted' });
+    }
+    return; // Other sentinels are resolved server-side
+  }
+  if (value === null) {
+    if (!fieldDef.nullable) {
+      issues.push({ path, rule: 'type', message: `expected ${fieldDef.type ?? 'a value'}, got null` });
+    }
+    return;
+  }
+  if (!matchesType(fieldDef, value)) {
+    issues.push({ path, rule: 'type', message: `expected ${fieldDef.type}, got ${describeValue(value)}` });
+    return;
+  }
+
+  if (fieldDef.enum && !fieldDef.enum.includes(value)) {
+    issues.push({ path, rule: 'enum', message: `expected one of ${fieldDef.enum.map(v => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(value)}` });
+  }
+
+  // min/max bound numbers by value, and strings/arrays by length
+  const measured = typeof value === 'number' ? value
+    : (typeof value === 'string' || Array.isArray(value)) ? value.length
+    : undefined;
+  const unit = typeof value === 'number' ? '' : ' in length';
+  if (measured !== undefined && fieldDef.min !== undefined && measured < fieldDef.min) {
+    issues.push({ path, rule: 'min', message: `must be at least ${fieldDef.min}${unit}, got ${measured}` });
+  }
+  if (measured !== undefined && fieldDef.max !== undefined && measured > fieldDef.max) {
+    issues.push({ path, rule: 'max', message: `must be at most ${fieldDef.max}${unit}, got ${measured}` });
+  }
+
+  if (fieldDef.pattern !== undefined && typeof value === 'string') {
+    const pattern = typeof fieldDef.pattern === 'string' ? new RegExp(fieldDef.pattern) : fieldDef.pattern;
+    if (!pattern.test(value)) {
+      issues.push({ path, rule: 'pattern', message: `does not match pattern ${pattern}` });
+    }
+  }
+
+  if (fieldDef.fields && isPlainMap(value)) {
+    validateFields(fieldDef.fields, value, path, mergePaths, issues);
+  }
+  if (fieldDef.values && isPlainMap(value)) {
+    for (const key of Object.keys(value)) {
+      if (!fieldDef.fields?.[key]) {
+        validateValue(fieldDef.values, value[key], `${path}.${formatFieldPath([key])}`, issues, mergePathsBelow(mergePaths, key));
+      }
+    }
+  }
+  if (fieldDef.items && Array.isArray(value)) {
+    value.forEach((item, index) => validateValue(fieldDef.items!, item, `${path}[${index}]`, issues));
+  }
+}
+
+/** Validates an object against a set of field definitions, collecting issues. */
+function validateFields(
+  fields: Record<string, FieldSchema>,
+  data: Record<string, unknown>,
+  parentPath: string,
+  mergePaths: MergePaths,
+  issues: SchemaValidationIssue[]
+): void {
+  for (const fieldName in fields) {
+    const fieldDef = fields[fieldName];
+    const path = parentPath ? `${parentPath}.${fieldName}` : fieldName;
+    const value = data[fieldName];
+    if (value === undefined) {
+      if (fieldDef.required && !mergePaths) {
+        issues.push({ path, rule: 'required', message: 'required field is missing' });
+      }
+      continue;
+    }
+    validateValue(fieldDef, value, path, issues, mergePathsBelow(mergePaths, fieldName));
+  }
+}
+
+/**
+ * Validates document data against the schema fields.
+ * With `partial`, missing fields are allowed at every level, as a merge write keeps the stored ones;
+ * the values at `mergeFields` paths replace the stored ones and are validated whole.
+ * Throws a SchemaValidationError listing every offending field path.
+ */
+export function validateDocumentData(
+  fields: Record<string, FieldSchema>,
+  data: Record<string, unknown>,
+  options: { partial?: boolean; mergeFields?: ReadonlyArray<ReadonlyArray<string>> } = {}
+): void {
+  const issues: SchemaValidationIssue[] = [];
+  validateFields(fields, data, '', options.partial ? options.mergeFields ?? [] : undefined, issues);
+  if (issues.length > 0) {
+    throw new SchemaValidationError(issues);
+  }
+}
+
+/** Resolves the field definition for a dotted field path (or its segments), walking nested map fields. */
+export function resolveFieldSchema(
+  fields: Record<string, FieldSchema>,
+  fieldPath: string | ReadonlyArray<string>
+): FieldSchema | undefined {
+  const segments = typeof fieldPath === 'string' ? fieldPath.split('.') : fieldPath;
+  let current: FieldSchema | undefined = fields[segments[0]];
+  for (const segment of segments.slice(1)) {
+    current = current?.fields?.[segment] ?? current?.values;
+  }
+  return current;
+}
+
+/**
+ * Validates a single update value for a dotted field path (or its segments).
+ * Paths not described by the schema are not validated.
+ */
+export function validateFieldUpdate(
+  fields: Record<string, FieldSchema>,
+  fieldPath: string | ReadonlyArray<string>,
+  value: unknown
+): void {
+  const fieldDef = resolveFieldSchema(fields, fieldPath);
+  if (!fieldDef) {
+    return;
+  }
+  const issues: SchemaValidationIssue[] = [];
+  validateValue(fieldDef, value, typeof fieldPath === 'string' ? fieldPath : formatFieldPath(fieldPath), issues);
+  if (issues.length > 0) {
+    throw new SchemaValidationError(issues);
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Admin-side typed write batch, using Firebase Admin SDK.
+ * Collects writes from collection refs and update builders and commits them
+ * as one or more WriteBatch commits, splitting past Firestore's 500-write limit.
+ */
+import type {
+  Firestore,
+  DocumentReference,
+  DocumentData,
+  SetOptions,
+  WriteResult,
+  Precondition,
+} from 'firebase-admin/firestore';
+import { toUpdateArguments } from './fieldPath';
+import type { AdminFieldUpdatePairs } from './fieldPath';
+
+/** Firestore rejects a single WriteBatch with more than 500 writes. */
+export const MAX_BATCH_OPERATIONS = 500;
+
+export interface AdminWriteBatchOptions {
+  /** Maximum number of writes per underlying WriteBatch commit (1-500). Defaults to 500. */
+  maxOperationsPerBatch?: number;
+}
+
+// Internal operation definition structure
+type BatchOperationType = 'create' | 'set' | 'update' | 'delete';
+interface BaseOperation { type: BatchOperationType; ref: DocumentReference<any>; }
+interface CreateOperation extends BaseOperation { type: 'create'; data: DocumentData; }
+interface SetOperation extends BaseOperation { type: 'set'; data: DocumentData; options: SetOptions; }
+interface UpdateOperation extends BaseOperation { type: 'update'; data: Record<string, any> | AdminFieldUpdatePairs; precondition?: Precondition; }
+interface DeleteOperation extends BaseOperation { type: 'delete'; precondition?: Precondition; }
+type BatchOperationDefinition = CreateOperation | SetOperation | UpdateOperation | DeleteOperation;
+
+/** Outcome of one underlying WriteBatch commit. */
+export interface AdminBatchChunkResult {
+  index: number;
+  operationCount: number;
+  /** Paths of the documents written by this chunk, in operation order. */
+  documentPaths: string[];
+  /** Present when the chunk committed successfully. */
+  writeResults?: WriteResult[];
+  /** Present when the chunk failed to commit. */
+  error?: unknown;
+}
+
+export interface AdminBatchCommitResult {
+  chunks: AdminBatchChunkResult[];
+  succeededCount: number; // Number of operations in successful chunks
+  failedCount: number; // Number of operations in failed chunks
+}
+
+export class AdminWriteBatch {
+  protected firestore: Firestore;
+  protected maxOperationsPerBatch: number;
+  protected operations: BatchOperationDefinition[] = [];
+  protected committed = false;
+
+  constructor(firestore: Firestore, options: AdminWriteBatchOptions = {}) {
+    const maxOperationsPerBatch = options.maxOperationsPerBatch ?? MAX_BATCH_OPERATIONS;
+    if (!Number.isInteger(maxOperationsPerBatch) || maxOperationsPerBatch < 1 || maxOperationsPerBatch > MAX_BATCH_OPERATIONS) {
+      throw new Error(`maxOperationsPerBatch must be an integer between 1 and ${MAX_BATCH_OPERATIONS}, got ${maxOperationsPerBatch}`);
+    }
+    this.firestore = firestore;
+    this.maxOperationsPerBatch = maxOperationsPerBatch;
+  }
+
+  /** Number of operations queued so far. */
+  get size(): number {
+    return this.operations.length;
+  }
+
+  /** Protected helper to queue an operation, rejecting writes after commit. */
+  protected addOperation(operation: BatchOperationDefinition): this {
+    if (this.committed) {
+      throw new Error('Cannot add operations to a batch that has already been committed.');
+    }
+    this.operations.push(operation);
+    return this;
+  }
+
+  /** Queues creation of a document that must not already exist. */
+  create<T extends DocumentData>(ref: DocumentReference<T>, data: DocumentData): this {
+    return this.addOperation({ type: 'create', ref, data });
+  }
+
+  /** Queues a set, overwriting the document unless merge options are provided. */
+  set<T extends DocumentData>(ref: DocumentReference<T>, data: DocumentData, options: SetOptions = {}): this {
+    return this.addOperation({ type: 'set', ref, data, options });
+  }
+
+  /**
+   * Queues an update of an existing document. Pass FieldPath/value pairs to update fields whose names contain dots.
+   * A failed precondition fails the whole chunk.
+   */
+  update<T extends DocumentData>(
+    ref: DocumentReference<T>,
+    data: Record<string, any> | AdminFieldUpdatePairs,
+    precondition?: Precondition
+  ): this {
+    return this.addOperation({ type: 'update', ref, data, precondition });
+  }
+
+  /** Queues deletion of a document. A failed precondition fails the whole chunk. */
+  delete<T extends DocumentData>(ref: DocumentReference<T>, precondition?: Precondition): this {
+    return this.addOperation({ type: 'delete', ref, precondition });
+  }
+
+  /**
+   * Commits all queued operations, one WriteBatch per chunk of `maxOperationsPerBatch`.
+   * Chunks are committed sequentially and independently: a failed chunk is reported
+   * in the result rather than thrown, and does not stop the remaining chunks.
+   */
+  async commit(): Promise<AdminBatchCommitResult> {
+    if (this.committed) {
+      throw new Error('Batch has already been committed.');
+    }
+    this.committed = true;
+
+    const result: AdminBatchCommitResult = { chunks: [], succeededCount: 0, failedCount: 0 };
+    for (let start = 0; start < this.operations.length; start += this.maxOperationsPerBatch) {
+      const chunkOperations = this.operations.slice(start, start + this.maxOperationsPerBatch);
+      const chunkResult: AdminBatchChunkResult = {
+        index: result.chunks.length,
+        operationCount: chunkOperations.length,
+        documentPaths: chunkOperations.map(op => op.ref.path),
+      };
+      try {
+        chunkResult.writeResults = await this.buildWriteBatch(chunkOperations).commit();
+        result.succeededCount += chunkOperations.length;
+      } catch (error) {
+        chunkResult.error = error;
+        result.failedCount += chunkOperations.length;
+      }
+      result.chunks.push(chunkResult);
+    }
+    return result;
+  }
+
+  /** Builds the Admin SDK WriteBatch for one chunk of operations. */
+  protected buildWriteBatch(operations: BatchOperationDefinition[]): FirebaseFirestore.WriteBatch {
+    const writeBatch = this.firestore.batch();
+    operations.forEach(op => {
+      switch (op.type) {
+        case 'create':
+          writeBatch.create(op.ref, op.data);
+          break;
+        case 'set':
+          writeBatch.set(op.ref, op.data, op.options);
+          break;
+        case 'update':
+          if (Array.isArray(op.data)) {
+            writeBatch.update(op.ref, ...toUpdateArguments(op.data), ...(op.precondition ? [op.precondition] : []));
+          } else if (op.precondition) {
+            writeBatch.update(op.ref, op.data, op.precondition);
+          } else {
+            writeBatch.update(op.ref, op.data);
+          }
+          break;
+        case 'delete':
+          if (op.precondition) {
+            writeBatch.delete(op.ref, op.precondition);
+          } else {
+            writeBatch.delete(op.ref);
+          }
+          break;
+        default: throw new Error(`Unsupported batch operation type: ${(op as any).type}`);
+      }
+    });
+    return writeBatch;
+  }
+}
@@ -3,6 +3,8 @@ import { getFirestore, Firestore, DocumentReference, FieldValue, Timestamp, Docu
 import { AdminBaseCollectionRef, CollectionSchema } from '../../src/baseCollection'; // Import base class and schema type
 import { AdminBaseQueryBuilder } from '../../src/baseQueryBuilder';   // Import Query Builder
 import { AdminBaseUpdateBuilder } from '../../src/baseUpdateBuilder'; // Import Update Builder
+import { AdminWriteBatch } from '../../src/writeBatch'; // Import typed batch
+import { timestampDateCodec } from '../../src/converter'; // Import built-in codec
 
 // --- Test Setup ---
 const FIREBASE_PROJECT_ID = 'fireschema-test-emulator'; // Must match emulator project ID
@@ -138,15 +140,15 @@ class TestAdminCollection extends AdminBaseCollectionRef<TestAdminData, TestAdmi
     super(db, 'test-admin-items', schema);
   }
 
-  // Method to create a query builder instance
+  // Method to create a query builder instance (forwards the bound transaction, if any)
   query(): AdminBaseQueryBuilder<TestAdminData> {
-    return new AdminBaseQueryBuilder<TestAdminData>(this.firestore, this.ref);
+    return new AdminBaseQueryBuilder<TestAdminData>(this.firestore, this.ref, this.transaction);
   }
 
-  // Method to create an update builder instance
+  // Method to create an update builder instance (forwards the bound transaction/batch and schema)
   update(id: string): AdminBaseUpdateBuilder<TestAdminData> {
     const docRef = this.doc(id); // Use base class doc() method
-    return new AdminBaseUpdateBuilder<TestAdminData>(docRef);
+    return new AdminBaseUpdateBuilder<TestAdminData>(docRef, this.updateBuilderOptions());
   }
 
   // Method to access the subcollection (requires SubCollection class definition)
@@ -906,4 +908,87 @@ describe('Admin Runtime Integration Tests', () => {
     }
   });
 
+  it('should read and write through a transaction', async () => {
+    const docId = 'admin-tx-item';
+    try {
+      await testAdminCollection.set(docId, { serviceName: 'Tx Svc', status: 'active', value: 1 });
+
+      await firestore.runTransaction(async (tx) => {
+        const txCollection = testAdminCollection.withTransaction(tx);
+        const current = await txCollection.get(docId);
+        const activeItems = await txCollection.query().orderBy('serviceName').get();
+        expect(activeItems).toHaveLength(1);
+
+        await (txCollection.update(docId) as any)._set('value', (current?.value ?? 0) + 1).commit();
+        await txCollection.set('admin-tx-created', { serviceName: 'Tx Created', status: 'inactive' });
+      });
+
+      expect((await testAdminCollection.get(docId))?.value).toBe(2);
+      expect(await testAdminCollection.get('admin-tx-created')).toEqual(expect.objectContaining({ serviceName: 'Tx Created' }));
+    } finally {
+      await cleanupCollection(testAdminCollection.ref);
+    }
+  });
+
+  it('should commit batched writes across multiple chunks', async () => {
+    try {
+      await testAdminCollection.set('admin-batch-existing', { serviceName: 'Existing', status: 'active', value: 1 });
+
+      const batch = new AdminWriteBatch(firestore, { maxOperationsPerBatch: 2 });
+      const batchCollection = testAdminCollection.withBatch(batch);
+      await batchCollection.set('admin-batch-1', { serviceName: 'Batch 1', status: 'active' });
+      await batchCollection.set('admin-batch-2', { serviceName: 'Batch 2', status: 'inactive' });
+      await (batchCollection.update('admin-batch-existing') as any)._set('value', 2).commit();
+
+      // Nothing is written until the batch commits
+      expect(await testAdminCollection.get('admin-batch-1')).toBeUndefined();
+
+      const result = await batch.commit();
+
+      expect(result.chunks).toHaveLength(2);
+      expect(result.failedCount).toBe(0);
+      expect(await testAdminCollection.get('admin-batch-2')).toEqual(expect.objectContaining({ serviceName: 'Batch 2' }));
+      expect((await testAdminCollection.get('admin-batch-existing'))?.value).toBe(2);
+    } finally {
+      await cleanupCollection(testAdminCollection.ref);
+    }
+  });
+
+  it('should decode and encode fields through the schema converter', async () => {
+    const docId = 'admin-converter-item';
+    const checkedAt = new Date('2024-05-06T07:08:09.000Z');
+    const converterSchema: CollectionSchema = {
+      fields: { serviceName: {}, status: {}, lastChecked: { type: 'timestamp', codec: timestampDateCodec } },
+    };
+    const convertedCollection = new TestAdminCollection(firestore, converterSchema).withSchemaConverter();
+    try {
+      await convertedCollection.set(docId, { serviceName: 'Converted', status: 'active', lastChecked: checkedAt } as any);
+
+      const rawSnapshot = await testAdminCollection.doc(docId).get();
+      expect(rawSnapshot.get('lastChecked')).toBeInstanceOf(Timestamp);
+
+      const retrieved: any = await convertedCollection.get(docId);
+      expect(retrieved.lastChecked).toEqual(checkedAt);
+      const queried: any[] = await convertedCollection.query().get();
+      expect(queried[0].lastChecked).toEqual(checkedAt);
+    } finally {
+      await cleanupCollection(testAdminCollection.ref);
+    }
+  });
+
+  it('should count, sum and average matching documents', async () => {
+    try {
+      await testAdminCollection.set('admin-agg-1', { serviceName: 'Agg A', status: 'active', value: 10 });
+      await testAdminCollection.set('admin-agg-2', { serviceName: 'Agg B', status: 'active', value: 20 });
+      await testAdminCollection.set('admin-agg-3', { serviceName: 'Agg C', status: 'inactive', value: 40 });
+
+      const activeQuery = (testAdminCollection.query() as any)._where('status', '==', 'active');
+      expect(await activeQuery.count()).toBe(2);
+      expect(await activeQuery.sum('value')).toBe(30);
+      expect(await activeQuery.average('value')).toBe(15);
+    } finally {
+      await cleanupCollection(testAdminCollection.ref);
+    }
+  });
+
 }); // Close describe block
\ No newline at end of file